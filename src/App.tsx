@@ -2,14 +2,22 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { PreferencesProvider } from "./contexts/PreferencesContext";
+import { FavoritesProvider } from "./contexts/FavoritesContext";
+import { GenresProvider } from "./contexts/GenresContext";
 import { Layout } from "./components/Layout";
 import ErrorBoundary from "./components/ErrorBoundary";
 import Home from "./pages/Home";
+import Discover from "./pages/Discover";
 import Favorites from "./pages/Favorites";
+import Person from "./pages/Person";
+import Movie from "./pages/Movie";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
+import { MovieRouteState } from "./hooks/useMovieNavigation";
+import { useMovieProvider } from "./hooks/useMovieProvider";
+import { queryPersistence } from "./services/queryPersistence";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -22,25 +30,56 @@ const queryClient = new QueryClient({
   },
 });
 
+// Start saving only once the previous visit's cache is back, so it isn't overwritten
+queryPersistence.restore(queryClient).then(() => queryPersistence.subscribe(queryClient));
+
+// Movies opened from a list keep that list rendered underneath their modal;
+// a cold visit to /movie/:id shows the modal over Home instead
+const AppRoutes = () => {
+  const location = useLocation();
+  const { backgroundLocation } = (location.state as MovieRouteState | null) ?? {};
+  // Pages that only TMDB can serve send other providers back home
+  const { features } = useMovieProvider();
+  const home = <Navigate to="/" replace />;
+
+  return (
+    <>
+      <Routes location={backgroundLocation ?? location}>
+        <Route path="/" element={<Home />} />
+        <Route path="/discover" element={features.discover ? <Discover /> : home} />
+        <Route path="/favorites" element={<Favorites />} />
+        <Route path="/movie/:id" element={<Home />} />
+        <Route path="/person/:id" element={features.people ? <Person /> : home} />
+        <Route path="/settings" element={<Settings />} />
+        {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+        <Route path="*" element={<NotFound />} />
+      </Routes>
+
+      <Routes>
+        <Route path="/movie/:id" element={<Movie />} />
+        <Route path="*" element={null} />
+      </Routes>
+    </>
+  );
+};
+
 const App = () => (
   <ErrorBoundary>
     <QueryClientProvider client={queryClient}>
       <PreferencesProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter basename={import.meta.env.PROD ? '/appsmith-next' : ''}>
-            <Layout>
-              <Routes>
-                <Route path="/" element={<Home />} />
-                <Route path="/favorites" element={<Favorites />} />
-                <Route path="/settings" element={<Settings />} />
-                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </Layout>
-          </BrowserRouter>
-        </TooltipProvider>
+        <FavoritesProvider>
+          <GenresProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <BrowserRouter basename={import.meta.env.PROD ? '/appsmith-next' : ''}>
+                <Layout>
+                  <AppRoutes />
+                </Layout>
+              </BrowserRouter>
+            </TooltipProvider>
+          </GenresProvider>
+        </FavoritesProvider>
       </PreferencesProvider>
     </QueryClientProvider>
   </ErrorBoundary>
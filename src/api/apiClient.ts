@@ -1,9 +1,23 @@
-import { dbHelpers } from '../services/idb';
+import { dbHelpers, AppDB } from '../services/idb';
+import { cacheManager } from '../services/cacheManager';
+import { CachePolicy, getCachePolicy } from './cachePolicy';
+import { DiscoverFilters, toDiscoverParams } from './discover';
+import { createAbortError } from './errors';
+import { RateLimitStatus, RequestPriority, RequestScheduler, RequestTicket } from './requestScheduler';
 
 export interface APIError {
   message: string;
   status?: number;
   isNetworkError?: boolean;
+  isOffline?: boolean;
+  isAborted?: boolean;
+}
+
+export interface RequestOptions {
+  /** Cancels this caller's interest in the request */
+  signal?: AbortSignal;
+  /** Prefetches wait behind requests the user is waiting on. Defaults to 'user'. */
+  priority?: RequestPriority;
 }
 
 export interface RateLimitInfo {
@@ -12,24 +26,55 @@ export interface RateLimitInfo {
   isNearLimit: boolean;
 }
 
+export interface CachedResponseInfo {
+  cachedAt: number;
+  isStale: boolean;
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  ticket: RequestTicket;
+  subscribers: number;
+}
+
 class APIClient {
   private baseURL: string;
   private apiKey: string;
+  private language: string | null = null;
+  private offlineMode = false;
   private rateLimitInfo: RateLimitInfo | null = null;
+  private cachedResponses = new WeakMap<object, CachedResponseInfo>();
+  private inFlight = new Map<string, InFlightRequest>();
+  private scheduler: RequestScheduler;
 
-  constructor(baseURL: string, apiKey: string) {
+  constructor(baseURL: string, apiKey: string, scheduler = new RequestScheduler()) {
     this.baseURL = baseURL;
     this.apiKey = apiKey;
+    this.scheduler = scheduler;
   }
 
   private async fetchWithRetry(
     url: string,
     options: RequestInit = {},
+    ticket: RequestTicket = { priority: 'user' },
     retries = 3
   ): Promise<Response> {
+    // Every attempt, retries included, waits its turn with the scheduler
+    await this.scheduler.acquire(ticket, options.signal);
+
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
 
+    // Forward cancellation from the caller to this attempt
+    const callerSignal = options.signal;
+    if (callerSignal?.aborted) {
+      clearTimeout(timeoutId);
+      throw createAbortError();
+    }
+    const abortFromCaller = () => controller.abort();
+    callerSignal?.addEventListener('abort', abortFromCaller);
+
     try {
       const response = await fetch(url, {
         ...options,
@@ -45,22 +90,23 @@ class APIClient {
       // Parse rate limit headers
       this.parseRateLimitHeaders(response);
 
-      // Handle rate limiting
+      // Handle rate limiting: hold every request, not just this one, until
+      // the API is ready again
       if (response.status === 429) {
         const retryAfter = response.headers.get('Retry-After');
         const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : 1000;
-        
+        this.scheduler.pauseUntil(this.scheduler.now() + waitTime);
+
         if (retries > 0) {
-          await new Promise(resolve => setTimeout(resolve, waitTime));
-          return this.fetchWithRetry(url, options, retries - 1);
+          return this.fetchWithRetry(url, options, ticket, retries - 1);
         }
       }
 
       // Handle server errors with exponential backoff
       if (response.status >= 500 && retries > 0) {
         const waitTime = Math.pow(2, 3 - retries) * 1000; // 1s, 2s, 4s
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        return this.fetchWithRetry(url, options, retries - 1);
+        await this.wait(waitTime, callerSignal);
+        return this.fetchWithRetry(url, options, ticket, retries - 1);
       }
 
       return response;
@@ -68,19 +114,100 @@ class APIClient {
       clearTimeout(timeoutId);
       
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Request timeout');
+        throw callerSignal?.aborted ? createAbortError() : new Error('Request timeout');
       }
 
       if (retries > 0 && this.isNetworkError(error)) {
         const waitTime = Math.pow(2, 3 - retries) * 1000;
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        return this.fetchWithRetry(url, options, retries - 1);
+        await this.wait(waitTime, callerSignal);
+        return this.fetchWithRetry(url, options, ticket, retries - 1);
       }
 
       throw error;
+    } finally {
+      callerSignal?.removeEventListener('abort', abortFromCaller);
     }
   }
 
+  private wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Runs a request once per key while it is in flight. Every caller shares the
+   * same underlying promise, and the request itself is only aborted once all
+   * callers that passed a signal have cancelled. A user request joining a
+   * prefetch moves it ahead in the scheduler's queue.
+   */
+  private dedupe<T>(
+    key: string,
+    run: (signal: AbortSignal, ticket: RequestTicket) => Promise<T>,
+    signal?: AbortSignal,
+    priority: RequestPriority = 'user'
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    let request = this.inFlight.get(key);
+    if (!request) {
+      const controller = new AbortController();
+      const ticket: RequestTicket = { priority };
+      const promise = run(controller.signal, ticket).finally(() => {
+        if (this.inFlight.get(key) === request) {
+          this.inFlight.delete(key);
+        }
+      });
+      request = { promise, controller, ticket, subscribers: 0 };
+      this.inFlight.set(key, request);
+    } else if (priority === 'user') {
+      this.scheduler.promote(request.ticket);
+    }
+
+    const shared = request;
+    shared.subscribers++;
+
+    if (!signal) {
+      return shared.promise as Promise<T>;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.subscribers--;
+        if (shared.subscribers === 0) {
+          // Drop it now so a caller arriving before it settles starts afresh
+          // rather than joining a request that is already cancelled
+          if (this.inFlight.get(key) === shared) {
+            this.inFlight.delete(key);
+          }
+          shared.controller.abort();
+        }
+        reject(createAbortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      (shared.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
   private parseRateLimitHeaders(response: Response) {
     const remaining = response.headers.get('X-RateLimit-Remaining');
     const reset = response.headers.get('X-RateLimit-Reset');
@@ -91,6 +218,13 @@ class APIClient {
         resetTime: parseInt(reset) * 1000,
         isNearLimit: parseInt(remaining) < 10,
       };
+
+      // Spend what is left of the window on requests the user is waiting for
+      if (this.rateLimitInfo.remaining <= 0) {
+        this.scheduler.pauseUntil(this.rateLimitInfo.resetTime);
+      } else if (this.rateLimitInfo.isNearLimit) {
+        this.scheduler.pausePrefetchesUntil(this.rateLimitInfo.resetTime);
+      }
     }
   }
 
@@ -102,24 +236,77 @@ class APIClient {
     );
   }
 
-  async get<T>(endpoint: string, params: Record<string, any> = {}): Promise<T> {
-    // Add API key to params
+  async get<T>(
+    endpoint: string,
+    params: Record<string, any> = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    // Add API key and preferred language to params. The language is part of
+    // the query string, so it also keys the cache and locales never collide.
     const urlParams = new URLSearchParams({
       api_key: this.apiKey,
+      ...(this.language && { language: this.language }),
       ...params,
     });
 
     const url = `${this.baseURL}${endpoint}?${urlParams}`;
     const cacheKey = `GET:${endpoint}:${urlParams.toString()}`;
 
+    const policy = getCachePolicy(endpoint);
+
     // Try cache first for GET requests
-    const cached = await dbHelpers.getCachedResponse(cacheKey);
+    const cached = await dbHelpers.getCacheEntry(cacheKey);
+    if (this.isOffline()) {
+      if (cached) {
+        return this.serveFromCache(cached);
+      }
+      throw {
+        message: "You're offline and this content hasn't been cached yet.",
+        isNetworkError: true,
+        isOffline: true,
+      } as APIError;
+    }
+
     if (cached) {
-      return cached;
+      const age = Date.now() - cached.timestamp;
+
+      if (age <= cached.ttl) {
+        return cached.data;
+      }
+
+      // Stale but within the revalidation window: answer now, refresh later
+      if (age <= cached.ttl + policy.staleMinutes * 60 * 1000) {
+        this.revalidate(endpoint, url, cacheKey, policy);
+        return cached.data;
+      }
     }
 
     try {
-      const response = await this.fetchWithRetry(url);
+      return await this.dedupe(
+        cacheKey,
+        (signal, ticket) => this.fetchAndCache<T>(endpoint, url, cacheKey, policy, signal, ticket),
+        options.signal,
+        options.priority
+      );
+    } catch (error) {
+      // Fall back to whatever we have cached, however old
+      if ((error as APIError).isNetworkError && cached) {
+        return this.serveFromCache(cached);
+      }
+      throw error;
+    }
+  }
+
+  private async fetchAndCache<T>(
+    endpoint: string,
+    url: string,
+    cacheKey: string,
+    policy: CachePolicy,
+    signal?: AbortSignal,
+    ticket?: RequestTicket
+  ): Promise<T> {
+    try {
+      const response = await this.fetchWithRetry(url, { signal }, ticket);
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -133,7 +320,9 @@ class APIClient {
       const data = await response.json();
       
       // Cache successful GET responses
-      await dbHelpers.cacheAPIResponse(cacheKey, data, 10);
+      const size = await dbHelpers.cacheAPIResponse(cacheKey, data, policy.ttlMinutes, policy.staleMinutes);
+      cacheManager.recordCached(size)
+        .catch(error => console.warn('Failed to evict cached responses:', error));
       
       // Track API usage
       await dbHelpers.trackEvent('api_call', {
@@ -144,6 +333,10 @@ class APIClient {
 
       return data;
     } catch (error) {
+      if ((error as APIError).isAborted) {
+        throw error;
+      }
+
       // Track errors
       await dbHelpers.trackEvent('api_error', {
         endpoint,
@@ -161,13 +354,80 @@ class APIClient {
     }
   }
 
+  // Nobody is waiting on a refresh, so it queues like a prefetch
+  private revalidate(endpoint: string, url: string, cacheKey: string, policy: CachePolicy) {
+    this.dedupe(
+      cacheKey,
+      (signal, ticket) => this.fetchAndCache(endpoint, url, cacheKey, policy, signal, ticket),
+      undefined,
+      'prefetch'
+    )
+      .catch(error => console.warn(`Background revalidation of ${endpoint} failed:`, error));
+  }
+
+  private serveFromCache(entry: AppDB['api-cache']['value']) {
+    if (entry.data && typeof entry.data === 'object') {
+      this.cachedResponses.set(entry.data, {
+        cachedAt: entry.timestamp,
+        isStale: dbHelpers.isCacheEntryExpired(entry),
+      });
+    }
+    return entry.data;
+  }
+
+  /**
+   * Returns when a response was cached if it was served from the cache
+   * because the app is offline, or null for live responses.
+   */
+  getCacheInfo(response: unknown): CachedResponseInfo | null {
+    if (!response || typeof response !== 'object') return null;
+    return this.cachedResponses.get(response) ?? null;
+  }
+
+  /**
+   * Carries a response's cache info over to a value derived from it, such as
+   * a copy with reshaped results. Returns the derived value.
+   */
+  inheritCacheInfo<T extends object>(response: unknown, derived: T): T {
+    const info = this.getCacheInfo(response);
+    if (info) {
+      this.cachedResponses.set(derived, info);
+    }
+    return derived;
+  }
+
+  isOffline(): boolean {
+    return this.offlineMode || (typeof navigator !== 'undefined' && !navigator.onLine);
+  }
+
+  setOfflineMode(offlineMode: boolean) {
+    this.offlineMode = offlineMode;
+  }
+
   getRateLimitInfo(): RateLimitInfo | null {
     return this.rateLimitInfo;
   }
 
+  /** Whether requests are on hold after hitting the rate limit, and until when */
+  getRateLimitStatus(): RateLimitStatus {
+    return this.scheduler.getStatus();
+  }
+
+  subscribeToRateLimitStatus(listener: () => void) {
+    return this.scheduler.subscribe(listener);
+  }
+
   setApiKey(apiKey: string) {
     this.apiKey = apiKey;
   }
+
+  getLanguage(): string | null {
+    return this.language;
+  }
+
+  setLanguage(language: string | null) {
+    this.language = language;
+  }
 }
 
 // TMDB API Client
@@ -201,9 +461,20 @@ export interface TMDBSearchResponse {
   total_results: number;
 }
 
+export type TMDBTrendingWindow = 'day' | 'week';
+
+export interface TMDBGenre {
+  id: number;
+  name: string;
+}
+
+export interface TMDBGenreListResponse {
+  genres: TMDBGenre[];
+}
+
 export interface TMDBMovieDetails extends TMDBMovie {
   runtime: number;
-  genres: Array<{ id: number; name: string }>;
+  genres: TMDBGenre[];
   production_companies: Array<{ id: number; name: string; logo_path: string | null }>;
   production_countries: Array<{ iso_3166_1: string; name: string }>;
   spoken_languages: Array<{ english_name: string; iso_639_1: string; name: string }>;
@@ -213,21 +484,268 @@ export interface TMDBMovieDetails extends TMDBMovie {
   revenue: number;
   homepage: string;
   imdb_id: string;
+  credits?: TMDBCredits;
+}
+
+export interface TMDBCastMember {
+  id: number;
+  name: string;
+  character: string;
+  profile_path: string | null;
+  order: number;
+  credit_id: string;
+}
+
+export interface TMDBCrewMember {
+  id: number;
+  name: string;
+  job: string;
+  department: string;
+  profile_path: string | null;
+  credit_id: string;
+}
+
+export interface TMDBCredits {
+  cast: TMDBCastMember[];
+  crew: TMDBCrewMember[];
+}
+
+export type TMDBVideoType =
+  | 'Trailer'
+  | 'Teaser'
+  | 'Clip'
+  | 'Featurette'
+  | 'Behind the Scenes'
+  | 'Bloopers';
+
+export interface TMDBVideo {
+  id: string;
+  iso_639_1: string;
+  iso_3166_1: string;
+  key: string;
+  name: string;
+  site: string;
+  size: number;
+  type: TMDBVideoType;
+  official: boolean;
+  published_at: string;
+}
+
+export interface TMDBVideosResponse {
+  id: number;
+  results: TMDBVideo[];
+}
+
+export interface TMDBTVShow {
+  id: number;
+  name: string;
+  original_name: string;
+  overview: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  first_air_date: string;
+  vote_average: number;
+  vote_count: number;
+  popularity: number;
+  genre_ids: number[];
+  origin_country: string[];
+  original_language: string;
+}
+
+export interface TMDBTVSearchResponse {
+  page: number;
+  results: TMDBTVShow[];
+  total_pages: number;
+  total_results: number;
+}
+
+export interface TMDBSeasonSummary {
+  id: number;
+  name: string;
+  overview: string;
+  season_number: number;
+  episode_count: number;
+  air_date: string | null;
+  poster_path: string | null;
+}
+
+export interface TMDBTVShowDetails extends TMDBTVShow {
+  genres: TMDBGenre[];
+  tagline: string;
+  status: string;
+  homepage: string;
+  in_production: boolean;
+  last_air_date: string | null;
+  number_of_seasons: number;
+  number_of_episodes: number;
+  episode_run_time: number[];
+  created_by: Array<{ id: number; name: string; profile_path: string | null }>;
+  networks: Array<{ id: number; name: string; logo_path: string | null }>;
+  seasons: TMDBSeasonSummary[];
+  credits?: TMDBCredits;
+}
+
+export interface TMDBEpisode {
+  id: number;
+  name: string;
+  overview: string;
+  season_number: number;
+  episode_number: number;
+  air_date: string | null;
+  runtime: number | null;
+  still_path: string | null;
+  vote_average: number;
+  vote_count: number;
+}
+
+export interface TMDBSeasonDetails {
+  id: number;
+  name: string;
+  overview: string;
+  season_number: number;
+  air_date: string | null;
+  poster_path: string | null;
+  episodes: TMDBEpisode[];
+}
+
+export interface TMDBPersonSummary {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  known_for_department: string;
+  popularity: number;
+  known_for: Array<TMDBMovieResult | TMDBTVResult>;
+}
+
+export interface TMDBPersonSearchResponse {
+  page: number;
+  results: TMDBPersonSummary[];
+  total_pages: number;
+  total_results: number;
+}
+
+// Results of /search/multi, told apart by media_type
+export type TMDBMovieResult = TMDBMovie & { media_type: 'movie' };
+export type TMDBTVResult = TMDBTVShow & { media_type: 'tv' };
+export type TMDBPersonResult = TMDBPersonSummary & { media_type: 'person' };
+export type TMDBMultiSearchResult = TMDBMovieResult | TMDBTVResult | TMDBPersonResult;
+export type TMDBMediaType = TMDBMultiSearchResult['media_type'];
+
+export interface TMDBMultiSearchResponse {
+  page: number;
+  results: TMDBMultiSearchResult[];
+  total_pages: number;
+  total_results: number;
+}
+
+export interface TMDBPersonDetails {
+  id: number;
+  name: string;
+  biography: string;
+  birthday: string | null;
+  deathday: string | null;
+  place_of_birth: string | null;
+  profile_path: string | null;
+  known_for_department: string;
+  also_known_as: string[];
+  homepage: string | null;
+  imdb_id: string | null;
+  popularity: number;
+}
+
+export interface TMDBPersonCastCredit extends TMDBMovie {
+  character: string;
+  credit_id: string;
+}
+
+export interface TMDBPersonCrewCredit extends TMDBMovie {
+  job: string;
+  department: string;
+  credit_id: string;
+}
+
+export interface TMDBPersonMovieCredits {
+  id: number;
+  cast: TMDBPersonCastCredit[];
+  crew: TMDBPersonCrewCredit[];
 }
 
 // Helper functions for TMDB API
 export const tmdbAPI = {
-  searchMovies: (query: string, page = 1): Promise<TMDBSearchResponse> =>
-    tmdbClient.get('/search/movie', { query, page }),
+  searchMovies: (query: string, page = 1, signal?: AbortSignal): Promise<TMDBSearchResponse> =>
+    tmdbClient.get('/search/movie', { query, page }, { signal }),
+
+  getPopularMovies: (page = 1, signal?: AbortSignal): Promise<TMDBSearchResponse> =>
+    tmdbClient.get('/movie/popular', { page }, { signal }),
+
+  getTrendingMovies: (timeWindow: TMDBTrendingWindow = 'day', page = 1, signal?: AbortSignal): Promise<TMDBSearchResponse> =>
+    tmdbClient.get(`/trending/movie/${timeWindow}`, { page }, { signal }),
+
+  getNowPlayingMovies: (page = 1, signal?: AbortSignal): Promise<TMDBSearchResponse> =>
+    tmdbClient.get('/movie/now_playing', { page }, { signal }),
+
+  getUpcomingMovies: (page = 1, signal?: AbortSignal): Promise<TMDBSearchResponse> =>
+    tmdbClient.get('/movie/upcoming', { page }, { signal }),
+
+  getTopRatedMovies: (page = 1, signal?: AbortSignal): Promise<TMDBSearchResponse> =>
+    tmdbClient.get('/movie/top_rated', { page }, { signal }),
+
+  // Credits come back in the same request via append_to_response
+  getMovieDetails: (movieId: number, signal?: AbortSignal, priority?: RequestPriority): Promise<TMDBMovieDetails> =>
+    tmdbClient.get(`/movie/${movieId}`, { append_to_response: 'credits' }, { signal, priority }),
+
+  discoverMovies: (filters: DiscoverFilters, page = 1, signal?: AbortSignal): Promise<TMDBSearchResponse> =>
+    tmdbClient.get('/discover/movie', { ...toDiscoverParams(filters), page }, { signal }),
+
+  // Takes the language explicitly, since the list is stored under it
+  getMovieGenres: (language: string, signal?: AbortSignal): Promise<TMDBGenreListResponse> =>
+    tmdbClient.get('/genre/movie/list', { language }, { signal }),
+
+  getMovieRecommendations: (movieId: number, page = 1, signal?: AbortSignal): Promise<TMDBSearchResponse> =>
+    tmdbClient.get(`/movie/${movieId}/recommendations`, { page }, { signal }),
+
+  getSimilarMovies: (movieId: number, page = 1, signal?: AbortSignal): Promise<TMDBSearchResponse> =>
+    tmdbClient.get(`/movie/${movieId}/similar`, { page }, { signal }),
+
+  // Videos in the preferred language, plus English and language-less fallbacks
+  getMovieVideos: (movieId: number, signal?: AbortSignal): Promise<TMDBVideosResponse> => {
+    const language = (tmdbClient.getLanguage() ?? 'en-US').split('-')[0];
+    const languages = Array.from(new Set([language, 'en', 'null']));
+    return tmdbClient.get(
+      `/movie/${movieId}/videos`,
+      { include_video_language: languages.join(',') },
+      { signal }
+    );
+  },
+
+  searchMulti: (query: string, page = 1, signal?: AbortSignal): Promise<TMDBMultiSearchResponse> =>
+    tmdbClient.get('/search/multi', { query, page }, { signal }),
+
+  searchTV: (query: string, page = 1, signal?: AbortSignal): Promise<TMDBTVSearchResponse> =>
+    tmdbClient.get('/search/tv', { query, page }, { signal }),
+
+  getPopularTVShows: (page = 1, signal?: AbortSignal): Promise<TMDBTVSearchResponse> =>
+    tmdbClient.get('/tv/popular', { page }, { signal }),
+
+  getTVShowDetails: (showId: number, signal?: AbortSignal): Promise<TMDBTVShowDetails> =>
+    tmdbClient.get(`/tv/${showId}`, { append_to_response: 'credits' }, { signal }),
+
+  getTVSeason: (showId: number, seasonNumber: number, signal?: AbortSignal): Promise<TMDBSeasonDetails> =>
+    tmdbClient.get(`/tv/${showId}/season/${seasonNumber}`, {}, { signal }),
+
+  searchPeople: (query: string, page = 1, signal?: AbortSignal): Promise<TMDBPersonSearchResponse> =>
+    tmdbClient.get('/search/person', { query, page }, { signal }),
 
-  getPopularMovies: (page = 1): Promise<TMDBSearchResponse> =>
-    tmdbClient.get('/movie/popular', { page }),
+  getPersonDetails: (personId: number, signal?: AbortSignal): Promise<TMDBPersonDetails> =>
+    tmdbClient.get(`/person/${personId}`, {}, { signal }),
 
-  getMovieDetails: (movieId: number): Promise<TMDBMovieDetails> =>
-    tmdbClient.get(`/movie/${movieId}`),
+  getPersonMovieCredits: (personId: number, signal?: AbortSignal): Promise<TMDBPersonMovieCredits> =>
+    tmdbClient.get(`/person/${personId}/movie_credits`, {}, { signal }),
 
-  getImageUrl: (path: string | null, size: 'w300' | 'w500' | 'w780' | 'original' = 'w500') => {
+  // Favorites from other catalogues store absolute image URLs, which pass through
+  getImageUrl: (path: string | null, size: 'w185' | 'w300' | 'w500' | 'w780' | 'original' = 'w500') => {
     if (!path) return '/placeholder.svg';
+    if (/^https?:\/\//.test(path)) return path;
     return `https://image.tmdb.org/t/p/${size}${path}`;
   },
 };
\ No newline at end of file
@@ -0,0 +1,54 @@
+export interface CachePolicy {
+  /** Endpoint pattern, where `:name` segments match any single path segment */
+  pattern: string;
+  /** How long a cached response is considered fresh */
+  ttlMinutes: number;
+  /**
+   * How long after expiry a cached response may still be returned immediately
+   * while a fresh copy is fetched in the background. 0 disables revalidation.
+   */
+  staleMinutes: number;
+}
+
+// Checked in order, so more specific patterns must come first
+export const cachePolicies: CachePolicy[] = [
+  { pattern: '/movie/popular', ttlMinutes: 30, staleMinutes: 24 * 60 },
+  { pattern: '/movie/now_playing', ttlMinutes: 6 * 60, staleMinutes: 24 * 60 },
+  { pattern: '/movie/upcoming', ttlMinutes: 6 * 60, staleMinutes: 24 * 60 },
+  { pattern: '/movie/top_rated', ttlMinutes: 24 * 60, staleMinutes: 7 * 24 * 60 },
+  { pattern: '/trending/movie/:window', ttlMinutes: 60, staleMinutes: 24 * 60 },
+  { pattern: '/search/movie', ttlMinutes: 10, staleMinutes: 60 },
+  { pattern: '/search/multi', ttlMinutes: 10, staleMinutes: 60 },
+  { pattern: '/search/tv', ttlMinutes: 10, staleMinutes: 60 },
+  { pattern: '/search/person', ttlMinutes: 10, staleMinutes: 60 },
+  { pattern: '/discover/movie', ttlMinutes: 30, staleMinutes: 24 * 60 },
+  { pattern: '/genre/movie/list', ttlMinutes: 7 * 24 * 60, staleMinutes: 30 * 24 * 60 },
+  { pattern: '/movie/:id', ttlMinutes: 24 * 60, staleMinutes: 7 * 24 * 60 },
+  { pattern: '/movie/:id/videos', ttlMinutes: 24 * 60, staleMinutes: 7 * 24 * 60 },
+  { pattern: '/movie/:id/recommendations', ttlMinutes: 6 * 60, staleMinutes: 24 * 60 },
+  { pattern: '/movie/:id/similar', ttlMinutes: 6 * 60, staleMinutes: 24 * 60 },
+  { pattern: '/tv/popular', ttlMinutes: 30, staleMinutes: 24 * 60 },
+  { pattern: '/tv/:id', ttlMinutes: 24 * 60, staleMinutes: 7 * 24 * 60 },
+  { pattern: '/tv/:id/season/:season', ttlMinutes: 24 * 60, staleMinutes: 7 * 24 * 60 },
+  { pattern: '/person/:id', ttlMinutes: 24 * 60, staleMinutes: 7 * 24 * 60 },
+  { pattern: '/person/:id/movie_credits', ttlMinutes: 24 * 60, staleMinutes: 7 * 24 * 60 },
+];
+
+export const defaultCachePolicy: CachePolicy = {
+  pattern: '*',
+  ttlMinutes: 10,
+  staleMinutes: 60,
+};
+
+const patternToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.replace(/:[^/]+/g, '[^/]+')}$`);
+
+const compiledPolicies = cachePolicies.map(policy => ({
+  policy,
+  regExp: patternToRegExp(policy.pattern),
+}));
+
+export const getCachePolicy = (endpoint: string): CachePolicy => {
+  const match = compiledPolicies.find(({ regExp }) => regExp.test(endpoint));
+  return match ? match.policy : defaultCachePolicy;
+};
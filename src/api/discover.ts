@@ -0,0 +1,127 @@
+// Filter model for /discover/movie, with its mapping onto TMDB query
+// parameters and onto the page URL so filtered views can be shared.
+
+export type DiscoverSortOption =
+  | 'popularity.desc'
+  | 'vote_average.desc'
+  | 'primary_release_date.desc'
+  | 'primary_release_date.asc'
+  | 'revenue.desc'
+  | 'original_title.asc';
+
+export interface DiscoverFilters {
+  genres: number[];
+  yearFrom: number | null;
+  yearTo: number | null;
+  minRating: number | null;
+  minVotes: number | null;
+  runtimeMin: number | null;
+  runtimeMax: number | null;
+  originalLanguage: string | null;
+  sortBy: DiscoverSortOption;
+}
+
+export const defaultDiscoverFilters: DiscoverFilters = {
+  genres: [],
+  yearFrom: null,
+  yearTo: null,
+  minRating: null,
+  minVotes: null,
+  runtimeMin: null,
+  runtimeMax: null,
+  originalLanguage: null,
+  sortBy: 'popularity.desc',
+};
+
+const SORT_OPTIONS: DiscoverSortOption[] = [
+  'popularity.desc',
+  'vote_average.desc',
+  'primary_release_date.desc',
+  'primary_release_date.asc',
+  'revenue.desc',
+  'original_title.asc',
+];
+
+// Short, readable names for the URL
+const URL_KEYS = {
+  genres: 'genres',
+  yearFrom: 'from',
+  yearTo: 'to',
+  minRating: 'rating',
+  minVotes: 'votes',
+  runtimeMin: 'minRuntime',
+  runtimeMax: 'maxRuntime',
+  originalLanguage: 'lang',
+  sortBy: 'sort',
+} as const;
+
+type NumericFilter = 'yearFrom' | 'yearTo' | 'minRating' | 'minVotes' | 'runtimeMin' | 'runtimeMax';
+
+const NUMERIC_FILTERS: NumericFilter[] = ['yearFrom', 'yearTo', 'minRating', 'minVotes', 'runtimeMin', 'runtimeMax'];
+
+/**
+ * Maps filters onto TMDB /discover/movie query parameters
+ */
+export const toDiscoverParams = (filters: DiscoverFilters): Record<string, string | number> => {
+  const params: Record<string, string | number> = { sort_by: filters.sortBy };
+
+  if (filters.genres.length > 0) params.with_genres = filters.genres.join(',');
+  if (filters.yearFrom !== null) params['primary_release_date.gte'] = `${filters.yearFrom}-01-01`;
+  if (filters.yearTo !== null) params['primary_release_date.lte'] = `${filters.yearTo}-12-31`;
+  if (filters.minRating !== null) params['vote_average.gte'] = filters.minRating;
+  if (filters.minVotes !== null) params['vote_count.gte'] = filters.minVotes;
+  if (filters.runtimeMin !== null) params['with_runtime.gte'] = filters.runtimeMin;
+  if (filters.runtimeMax !== null) params['with_runtime.lte'] = filters.runtimeMax;
+  if (filters.originalLanguage) params.with_original_language = filters.originalLanguage;
+
+  return params;
+};
+
+/**
+ * Serializes filters into URL search params, leaving out defaults
+ */
+export const filtersToSearchParams = (filters: DiscoverFilters): URLSearchParams => {
+  const searchParams = new URLSearchParams();
+
+  if (filters.genres.length > 0) searchParams.set(URL_KEYS.genres, filters.genres.join(','));
+  for (const key of NUMERIC_FILTERS) {
+    const value = filters[key];
+    if (value !== null) searchParams.set(URL_KEYS[key], String(value));
+  }
+  if (filters.originalLanguage) searchParams.set(URL_KEYS.originalLanguage, filters.originalLanguage);
+  if (filters.sortBy !== defaultDiscoverFilters.sortBy) searchParams.set(URL_KEYS.sortBy, filters.sortBy);
+
+  return searchParams;
+};
+
+/**
+ * Reads filters back from URL search params. Anything malformed falls back
+ * to its default so hand-edited links still load.
+ */
+export const filtersFromSearchParams = (searchParams: URLSearchParams): DiscoverFilters => {
+  const readNumber = (key: string) => {
+    const raw = searchParams.get(key);
+    if (raw === null || raw.trim() === '') return null;
+    const value = Number(raw);
+    return Number.isFinite(value) ? value : null;
+  };
+
+  const genres = (searchParams.get(URL_KEYS.genres) ?? '')
+    .split(',')
+    .map(Number)
+    .filter(id => Number.isInteger(id) && id > 0);
+
+  const sort = searchParams.get(URL_KEYS.sortBy) as DiscoverSortOption | null;
+
+  const filters: DiscoverFilters = {
+    ...defaultDiscoverFilters,
+    genres,
+    originalLanguage: searchParams.get(URL_KEYS.originalLanguage) || null,
+    sortBy: sort && SORT_OPTIONS.includes(sort) ? sort : defaultDiscoverFilters.sortBy,
+  };
+  for (const key of NUMERIC_FILTERS) {
+    filters[key] = readNumber(URL_KEYS[key]);
+  }
+
+  return filters;
+};
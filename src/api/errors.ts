@@ -0,0 +1,8 @@
+import type { APIError } from './apiClient';
+
+// The error every cancelled request rejects with; callers check isAborted
+// and stay quiet rather than reporting a failure
+export const createAbortError = (): APIError => ({
+  message: 'Request cancelled',
+  isAborted: true,
+});
@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { safeParseAs } from '@/lib/schema';
+import { APIError, tmdbAPI } from '../apiClient';
+import { createAbortError } from '../errors';
+import { TMDB_PAGE_SIZE } from '../queries';
+import { Genre, MovieDetails, MovieListKind, MoviePage, MovieProvider } from './types';
+
+const catalogueMovieSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  overview: z.string().default(''),
+  poster_path: z.string().nullable().default(null),
+  backdrop_path: z.string().nullable().default(null),
+  release_date: z.string().default(''),
+  vote_average: z.number().default(0),
+  vote_count: z.number().default(0),
+  popularity: z.number().default(0),
+  genre_ids: z.array(z.number().int()).default([]),
+  tagline: z.string().optional(),
+  runtime: z.number().optional(),
+  status: z.string().optional(),
+  original_language: z.string().optional(),
+  budget: z.number().optional(),
+  revenue: z.number().optional(),
+  homepage: z.string().optional(),
+  production_companies: z.array(z.object({ id: z.number(), name: z.string() })).optional(),
+});
+
+const catalogueSchema = z.object({
+  genres: z.array(z.object({ id: z.number().int(), name: z.string() })).default([]),
+  movies: z.array(catalogueMovieSchema),
+});
+
+// What catalogueSchema parses to
+interface CatalogueMovie extends Omit<MovieDetails, 'genres' | 'credits'> {
+  popularity: number;
+}
+
+interface Catalogue {
+  genres: Genre[];
+  movies: CatalogueMovie[];
+}
+
+// How far back a release still counts as now playing
+const NOW_PLAYING_DAYS = 45;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const byPopularity = (a: CatalogueMovie, b: CatalogueMovie) =>
+  b.popularity - a.popularity || b.vote_count - a.vote_count;
+
+const releaseTime = (movie: CatalogueMovie) =>
+  movie.release_date ? new Date(movie.release_date).getTime() : NaN;
+
+const selectList = (movies: CatalogueMovie[], kind: MovieListKind) => {
+  const now = Date.now();
+  switch (kind) {
+    case 'top_rated':
+      return [...movies].sort((a, b) => b.vote_average - a.vote_average || byPopularity(a, b));
+    case 'now_playing':
+      return movies
+        .filter(movie => releaseTime(movie) <= now && releaseTime(movie) > now - NOW_PLAYING_DAYS * DAY_MS)
+        .sort((a, b) => releaseTime(b) - releaseTime(a));
+    case 'upcoming':
+      return movies
+        .filter(movie => releaseTime(movie) > now)
+        .sort((a, b) => releaseTime(a) - releaseTime(b));
+    default:
+      // A catalogue has no viewing trends, so trending falls back to popular
+      return [...movies].sort(byPopularity);
+  }
+};
+
+const toPage = (movies: CatalogueMovie[], page: number): MoviePage => ({
+  page,
+  results: movies.slice((page - 1) * TMDB_PAGE_SIZE, page * TMDB_PAGE_SIZE),
+  total_pages: Math.max(1, Math.ceil(movies.length / TMDB_PAGE_SIZE)),
+  total_results: movies.length,
+});
+
+const abortIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+/**
+ * Serves movies from a JSON catalogue at the given URL, e.g. an export of an
+ * internal catalogue: `{ "genres": [{ "id", "name" }], "movies": [...] }`,
+ * with movies in the same shape as the app's Movie model. The file is loaded
+ * once and lists, search and related movies are worked out from it.
+ */
+export const createLocalCatalogueProvider = (catalogueUrl: string): MovieProvider => {
+  let catalogue: Promise<Catalogue> | null = null;
+
+  // Relative image paths are resolved against the catalogue's own URL
+  const resolveImage = (path: string | null, base: URL) =>
+    path ? new URL(path, base).href : null;
+
+  const fetchCatalogue = async (): Promise<Catalogue> => {
+    const base = new URL(catalogueUrl, window.location.href);
+    let response: Response;
+    try {
+      response = await fetch(base.href);
+    } catch {
+      throw {
+        message: 'Network error. Could not reach the movie catalogue.',
+        isNetworkError: true,
+      } as APIError;
+    }
+    if (!response.ok) {
+      throw {
+        message: `Could not load the movie catalogue (HTTP ${response.status})`,
+        status: response.status,
+        isNetworkError: false,
+      } as APIError;
+    }
+
+    const parsed = safeParseAs(catalogueSchema, await response.json().catch(() => null));
+    if (!parsed.success) {
+      throw {
+        message: "The movie catalogue isn't in the expected format.",
+        isNetworkError: false,
+      } as APIError;
+    }
+
+    // The schema checked every field, but zod still types them as optional
+    const { genres, movies } = parsed.data as Catalogue;
+    return {
+      genres,
+      movies: movies.map(movie => ({
+        ...movie,
+        poster_path: resolveImage(movie.poster_path, base),
+        backdrop_path: resolveImage(movie.backdrop_path, base),
+      })),
+    };
+  };
+
+  // Loaded once and shared; a failed load is tried again on the next call
+  const loadCatalogue = async (signal?: AbortSignal) => {
+    if (!catalogue) {
+      catalogue = fetchCatalogue();
+      catalogue.catch(() => {
+        catalogue = null;
+      });
+    }
+    const loaded = await catalogue;
+    abortIfCancelled(signal);
+    return loaded;
+  };
+
+  return {
+    id: `catalogue:${catalogueUrl}`,
+    name: 'Local catalogue',
+    features: {
+      tvShows: false,
+      people: false,
+      discover: false,
+      videos: false,
+      multiSearch: false,
+    },
+
+    getMovieList: async (kind, page, signal) => {
+      const { movies } = await loadCatalogue(signal);
+      return toPage(selectList(movies, kind), page);
+    },
+
+    searchMovies: async (query, page, signal) => {
+      const { movies } = await loadCatalogue(signal);
+      const needle = query.trim().toLowerCase();
+      return toPage(
+        movies.filter(movie => movie.title.toLowerCase().includes(needle)).sort(byPopularity),
+        page
+      );
+    },
+
+    getMovieDetails: async (movieId, signal) => {
+      const { genres, movies } = await loadCatalogue(signal);
+      const movie = movies.find(candidate => candidate.id === movieId);
+      if (!movie) {
+        throw { message: 'This movie is not in the catalogue.', status: 404, isNetworkError: false } as APIError;
+      }
+      return {
+        ...movie,
+        genres: genres.filter(genre => movie.genre_ids.includes(genre.id)),
+      };
+    },
+
+    // Movies sharing the most genres; recommendations favour popular ones
+    getRelatedMovies: async (movieId, kind, page, signal) => {
+      const { movies } = await loadCatalogue(signal);
+      const movie = movies.find(candidate => candidate.id === movieId);
+      if (!movie) return toPage([], page);
+
+      const sharedGenres = (other: CatalogueMovie) =>
+        other.genre_ids.filter(id => movie.genre_ids.includes(id)).length;
+      const related = movies.filter(other => other.id !== movieId && sharedGenres(other) > 0);
+      related.sort(kind === 'recommendations'
+        ? byPopularity
+        : (a, b) => sharedGenres(b) - sharedGenres(a) || byPopularity(a, b));
+      return toPage(related, page);
+    },
+
+    getGenres: async () => (await loadCatalogue()).genres,
+
+    // Catalogue images are already absolute; anything else is a TMDB path,
+    // e.g. on a favorite saved while TMDB was the source
+    getImageUrl: tmdbAPI.getImageUrl,
+  };
+};
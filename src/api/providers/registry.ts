@@ -0,0 +1,22 @@
+import { tmdbProvider } from './tmdbProvider';
+import { createLocalCatalogueProvider } from './localCatalogueProvider';
+import { MovieProvider } from './types';
+
+export type MovieProviderId = 'tmdb' | 'local-catalogue';
+
+// Served next to the app unless Settings points somewhere else
+export const DEFAULT_CATALOGUE_URL = `${import.meta.env.BASE_URL ?? '/'}catalogue.json`;
+
+// One provider per catalogue URL, so a loaded catalogue is reused
+const catalogueProviders = new Map<string, MovieProvider>();
+
+export const getMovieProvider = (id: MovieProviderId, catalogueUrl: string): MovieProvider => {
+  if (id !== 'local-catalogue') return tmdbProvider;
+
+  let provider = catalogueProviders.get(catalogueUrl);
+  if (!provider) {
+    provider = createLocalCatalogueProvider(catalogueUrl);
+    catalogueProviders.set(catalogueUrl, provider);
+  }
+  return provider;
+};
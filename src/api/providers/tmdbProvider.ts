@@ -0,0 +1,40 @@
+import { tmdbAPI } from '../apiClient';
+import { genreService } from '../../services/genreService';
+import { MovieListKind, MovieProvider, MoviePage, RelatedMoviesKind } from './types';
+
+const listFetchers: Record<MovieListKind, (page: number, signal?: AbortSignal) => Promise<MoviePage>> = {
+  popular: tmdbAPI.getPopularMovies,
+  now_playing: tmdbAPI.getNowPlayingMovies,
+  upcoming: tmdbAPI.getUpcomingMovies,
+  top_rated: tmdbAPI.getTopRatedMovies,
+  trending_day: (page, signal) => tmdbAPI.getTrendingMovies('day', page, signal),
+  trending_week: (page, signal) => tmdbAPI.getTrendingMovies('week', page, signal),
+};
+
+const relatedFetchers: Record<
+  RelatedMoviesKind,
+  (movieId: number, page: number, signal?: AbortSignal) => Promise<MoviePage>
+> = {
+  recommendations: tmdbAPI.getMovieRecommendations,
+  similar: tmdbAPI.getSimilarMovies,
+};
+
+// TMDB through the shared API client, so caching, offline mode and rate
+// limiting all apply
+export const tmdbProvider: MovieProvider = {
+  id: 'tmdb',
+  name: 'TMDB',
+  features: {
+    tvShows: true,
+    people: true,
+    discover: true,
+    videos: true,
+    multiSearch: true,
+  },
+  getMovieList: (kind, page, signal) => listFetchers[kind](page, signal),
+  searchMovies: tmdbAPI.searchMovies,
+  getMovieDetails: tmdbAPI.getMovieDetails,
+  getRelatedMovies: (movieId, kind, page, signal) => relatedFetchers[kind](movieId, page, signal),
+  getGenres: genreService.getGenres,
+  getImageUrl: tmdbAPI.getImageUrl,
+};
@@ -0,0 +1,111 @@
+import type { RequestPriority } from '../requestScheduler';
+
+/**
+ * A movie as the app shows it, whichever provider it came from. Field names
+ * follow what favorites already store, so saved movies keep working.
+ */
+export interface Movie {
+  id: number;
+  title: string;
+  overview: string;
+  // Resolve with the provider's getImageUrl; may already be an absolute URL
+  poster_path: string | null;
+  backdrop_path: string | null;
+  release_date: string;
+  vote_average: number;
+  vote_count?: number;
+  genre_ids?: number[];
+}
+
+export interface Genre {
+  id: number;
+  name: string;
+}
+
+export interface CastMember {
+  id: number;
+  name: string;
+  character: string;
+  profile_path: string | null;
+  order: number;
+  credit_id: string;
+}
+
+export interface CrewMember {
+  id: number;
+  name: string;
+  job: string;
+  department: string;
+  profile_path: string | null;
+  credit_id: string;
+}
+
+export interface Credits {
+  cast: CastMember[];
+  crew: CrewMember[];
+}
+
+// Everything beyond the basics is optional, since catalogues vary in what they record
+export interface MovieDetails extends Movie {
+  genres: Genre[];
+  tagline?: string;
+  runtime?: number;
+  status?: string;
+  original_language?: string;
+  budget?: number;
+  revenue?: number;
+  homepage?: string;
+  production_companies?: Array<{ id: number; name: string }>;
+  credits?: Credits;
+}
+
+export interface MoviePage {
+  page: number;
+  results: Movie[];
+  total_pages: number;
+  total_results: number;
+}
+
+export type MovieListKind =
+  | 'popular'
+  | 'now_playing'
+  | 'upcoming'
+  | 'top_rated'
+  | 'trending_day'
+  | 'trending_week';
+
+export type RelatedMoviesKind = 'recommendations' | 'similar';
+
+export type ImageSize = 'w185' | 'w300' | 'w500' | 'w780' | 'original';
+
+// Parts of the app that only some providers can back; the rest is hidden
+export interface MovieProviderFeatures {
+  tvShows: boolean;
+  people: boolean;
+  discover: boolean;
+  videos: boolean;
+  // Searching movies, shows and people together rather than movies only
+  multiSearch: boolean;
+}
+
+/**
+ * A source of movie metadata. Lists are paged by 20, like TMDB, since the
+ * paginated list hooks re-page them assuming that size.
+ */
+export interface MovieProvider {
+  // Keys cached data, so different catalogues never mix
+  id: string;
+  name: string;
+  features: MovieProviderFeatures;
+  getMovieList: (kind: MovieListKind, page: number, signal?: AbortSignal) => Promise<MoviePage>;
+  searchMovies: (query: string, page: number, signal?: AbortSignal) => Promise<MoviePage>;
+  getMovieDetails: (movieId: number, signal?: AbortSignal, priority?: RequestPriority) => Promise<MovieDetails>;
+  getRelatedMovies: (
+    movieId: number,
+    kind: RelatedMoviesKind,
+    page: number,
+    signal?: AbortSignal
+  ) => Promise<MoviePage>;
+  getGenres: (language: string) => Promise<Genre[]>;
+  getImageUrl: (path: string | null, size?: ImageSize) => string;
+}
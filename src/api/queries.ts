@@ -0,0 +1,85 @@
+import { queryOptions, infiniteQueryOptions } from '@tanstack/react-query';
+import { TMDBMultiSearchResult, tmdbAPI } from './apiClient';
+import { SearchResultType, asTVResult, searchByType, tagResults } from './search';
+import type { Movie, MovieProvider } from './providers/types';
+
+// TMDB always pages by 20 and refuses to go past page 500
+export const TMDB_PAGE_SIZE = 20;
+export const TMDB_MAX_PAGE = 500;
+
+export interface PagedResponse<T> {
+  page: number;
+  results: T[];
+  total_pages: number;
+  total_results: number;
+}
+
+export type PageFetcher<T> = (page: number, signal?: AbortSignal) => Promise<PagedResponse<T>>;
+
+// Popular lists are plain movies or tagged shows; search mixes in people too
+export type ListItem = Movie | TMDBMultiSearchResult;
+
+// Source of data that only TMDB provides, such as TV shows and multi search
+export const TMDB_SOURCE = 'tmdb';
+
+/**
+ * Query keys for movie data. Every key starts with the source, a provider
+ * id, so catalogues never mix. Responses are localised, so keys also carry
+ * the language and switching it never shows results in the old one.
+ */
+export const queryKeys = {
+  all: (source: string) => [source] as const,
+  list: (source: string, language: string, listKey: string) =>
+    [source, language, 'list', listKey] as const,
+  listPage: (source: string, language: string, listKey: string, page: number) =>
+    [...queryKeys.list(source, language, listKey), page] as const,
+  listPages: (source: string, language: string, listKey: string) =>
+    [...queryKeys.list(source, language, listKey), 'infinite'] as const,
+  movieDetails: (source: string, language: string, movieId: number) =>
+    [source, language, 'movie', movieId] as const,
+};
+
+// The API client already retries, falls back to its offline cache and tracks
+// cache info per response object, so queries must always run, must not retry
+// on top of it and must keep the response objects they are given
+const queryDefaults = {
+  networkMode: 'always',
+  retry: false,
+  structuralSharing: false,
+} as const;
+
+export const listPageQuery = <T>(
+  source: string,
+  language: string,
+  listKey: string,
+  page: number,
+  fetchPage: PageFetcher<T>
+) =>
+  queryOptions({
+    ...queryDefaults,
+    queryKey: queryKeys.listPage(source, language, listKey, page),
+    queryFn: ({ signal }) => fetchPage(page, signal),
+  });
+
+export const listPagesQuery = <T>(source: string, language: string, listKey: string, fetchPage: PageFetcher<T>) =>
+  infiniteQueryOptions({
+    ...queryDefaults,
+    queryKey: queryKeys.listPages(source, language, listKey),
+    queryFn: ({ pageParam, signal }) => fetchPage(pageParam, signal),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage: PagedResponse<T>) =>
+      lastPage.page < Math.min(lastPage.total_pages, TMDB_MAX_PAGE) ? lastPage.page + 1 : undefined,
+  });
+
+export const movieDetailsQuery = (provider: MovieProvider, language: string, movieId: number) =>
+  queryOptions({
+    ...queryDefaults,
+    queryKey: queryKeys.movieDetails(provider.id, language, movieId),
+    queryFn: ({ signal }) => provider.getMovieDetails(movieId, signal),
+  });
+
+export const fetchPopularTVShows: PageFetcher<ListItem> = async (page, signal) =>
+  tagResults(await tmdbAPI.getPopularTVShows(page, signal), asTVResult);
+
+export const searchFetcher = (type: SearchResultType, query: string): PageFetcher<ListItem> =>
+  (page, signal) => searchByType(type, query, page, signal);
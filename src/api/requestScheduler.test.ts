@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { RequestScheduler, RequestTicket, SchedulerClock } from './requestScheduler';
+
+// A clock that only moves when told to, firing timers as it passes them
+const createFakeClock = () => {
+  let time = 0;
+  let nextHandle = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  // Lets resolved acquire() promises run their callbacks
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  const clock: SchedulerClock = {
+    now: () => time,
+    setTimeout: (callback, ms) => {
+      const handle = nextHandle++;
+      timers.set(handle, { at: time + ms, callback });
+      return handle as unknown as ReturnType<typeof setTimeout>;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle as unknown as number);
+    },
+  };
+
+  const advance = async (ms: number) => {
+    const end = time + ms;
+    for (;;) {
+      const [due] = [...timers.entries()]
+        .filter(([, timer]) => timer.at <= end)
+        .sort(([, a], [, b]) => a.at - b.at);
+      if (!due) break;
+
+      const [handle, timer] = due;
+      timers.delete(handle);
+      time = timer.at;
+      timer.callback();
+      await flush();
+    }
+    time = end;
+    await flush();
+  };
+
+  return { clock, advance, flush };
+};
+
+// Records the order in which requests are let out
+const createLog = () => {
+  const released: string[] = [];
+  const track = (name: string, promise: Promise<void>) => {
+    promise.then(() => released.push(name), () => released.push(`${name} rejected`));
+    return promise;
+  };
+  return { released, track };
+};
+
+const user = (): RequestTicket => ({ priority: 'user' });
+const prefetch = (): RequestTicket => ({ priority: 'prefetch' });
+
+describe('RequestScheduler', () => {
+  it('lets a full bucket out at once and then paces requests at the refill rate', async () => {
+    const { clock, advance, flush } = createFakeClock();
+    const scheduler = new RequestScheduler({ capacity: 2, refillPerSecond: 1, clock });
+    const { released, track } = createLog();
+
+    track('a', scheduler.acquire(user()));
+    track('b', scheduler.acquire(user()));
+    track('c', scheduler.acquire(user()));
+    await flush();
+    expect(released).toEqual(['a', 'b']);
+
+    await advance(999);
+    expect(released).toEqual(['a', 'b']);
+
+    await advance(1);
+    expect(released).toEqual(['a', 'b', 'c']);
+  });
+
+  it('lets queued user requests out ahead of prefetches', async () => {
+    const { clock, advance, flush } = createFakeClock();
+    const scheduler = new RequestScheduler({ capacity: 1, refillPerSecond: 1, clock });
+    const { released, track } = createLog();
+
+    track('first', scheduler.acquire(user()));
+    track('prefetch', scheduler.acquire(prefetch()));
+    track('user', scheduler.acquire(user()));
+    await flush();
+    expect(released).toEqual(['first']);
+
+    await advance(1000);
+    expect(released).toEqual(['first', 'user']);
+
+    await advance(1000);
+    expect(released).toEqual(['first', 'user', 'prefetch']);
+  });
+
+  it('moves a promoted prefetch ahead of other prefetches', async () => {
+    const { clock, advance } = createFakeClock();
+    const scheduler = new RequestScheduler({ capacity: 1, refillPerSecond: 1, clock });
+    const { released, track } = createLog();
+
+    track('first', scheduler.acquire(user()));
+    track('older', scheduler.acquire(prefetch()));
+    const wanted = prefetch();
+    track('wanted', scheduler.acquire(wanted));
+
+    scheduler.promote(wanted);
+    expect(wanted.priority).toBe('user');
+
+    await advance(1000);
+    expect(released).toEqual(['first', 'wanted']);
+  });
+
+  it('holds every request while paused and reports when they resume', async () => {
+    const { clock, advance, flush } = createFakeClock();
+    const scheduler = new RequestScheduler({ capacity: 5, refillPerSecond: 1, clock });
+    const { released, track } = createLog();
+    const statuses: unknown[] = [];
+    scheduler.subscribe(() => statuses.push(scheduler.getStatus()));
+
+    scheduler.pauseUntil(5000);
+    expect(scheduler.getStatus()).toEqual({ limitedUntil: 5000, queued: 0 });
+
+    track('held', scheduler.acquire(user()));
+    await flush();
+    expect(released).toEqual([]);
+    expect(scheduler.getStatus()).toEqual({ limitedUntil: 5000, queued: 1 });
+
+    await advance(5000);
+    expect(released).toEqual(['held']);
+    expect(scheduler.getStatus()).toEqual({ limitedUntil: null, queued: 0 });
+    expect(statuses).toEqual([
+      { limitedUntil: 5000, queued: 0 },
+      { limitedUntil: 5000, queued: 1 },
+      { limitedUntil: null, queued: 0 },
+    ]);
+  });
+
+  it('holds only prefetches while prefetches are paused', async () => {
+    const { clock, advance, flush } = createFakeClock();
+    const scheduler = new RequestScheduler({ capacity: 5, refillPerSecond: 1, clock });
+    const { released, track } = createLog();
+
+    scheduler.pausePrefetchesUntil(3000);
+    track('prefetch', scheduler.acquire(prefetch()));
+    track('user', scheduler.acquire(user()));
+    await flush();
+    expect(released).toEqual(['user']);
+
+    await advance(3000);
+    expect(released).toEqual(['user', 'prefetch']);
+  });
+
+  it('drops an aborted request from the queue without spending a token on it', async () => {
+    const { clock, advance, flush } = createFakeClock();
+    const scheduler = new RequestScheduler({ capacity: 1, refillPerSecond: 1, clock });
+    const { released, track } = createLog();
+    const controller = new AbortController();
+
+    track('first', scheduler.acquire(user()));
+    const cancelled = track('cancelled', scheduler.acquire(user(), controller.signal));
+    track('next', scheduler.acquire(user()));
+    await flush();
+    expect(scheduler.getStatus().queued).toBe(2);
+
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ isAborted: true });
+    expect(scheduler.getStatus().queued).toBe(1);
+
+    await advance(1000);
+    expect(released).toEqual(['first', 'cancelled rejected', 'next']);
+  });
+
+  it('rejects straight away when the signal has already fired', async () => {
+    const { clock } = createFakeClock();
+    const scheduler = new RequestScheduler({ clock });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(scheduler.acquire(user(), controller.signal)).rejects.toMatchObject({ isAborted: true });
+    expect(scheduler.getStatus().queued).toBe(0);
+  });
+});
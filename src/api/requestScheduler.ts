@@ -0,0 +1,209 @@
+import { createAbortError } from './errors';
+
+export type RequestPriority = 'user' | 'prefetch';
+
+/**
+ * A request waiting for its turn. Its priority can be raised with promote()
+ * while it waits, e.g. when the user asks for something being prefetched.
+ */
+export interface RequestTicket {
+  priority: RequestPriority;
+}
+
+// Time source for the scheduler, swapped for a fake one in tests
+export interface SchedulerClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): ReturnType<typeof setTimeout>;
+  clearTimeout(handle: ReturnType<typeof setTimeout>): void;
+}
+
+export const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle),
+};
+
+export interface RateLimitStatus {
+  // When requests resume after the API turned us away, null while not limited
+  limitedUntil: number | null;
+  // Requests waiting for their turn
+  queued: number;
+}
+
+export interface RequestSchedulerOptions {
+  // Requests that can go out back to back before throttling kicks in
+  capacity?: number;
+  refillPerSecond?: number;
+  clock?: SchedulerClock;
+}
+
+interface Waiter {
+  ticket: RequestTicket;
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token bucket that paces outgoing requests. Each request takes a token;
+ * tokens refill at a steady rate up to the bucket's capacity. Requests that
+ * find the bucket empty queue up, user requests ahead of prefetches, and are
+ * let out in order as tokens come back.
+ */
+export class RequestScheduler {
+  private capacity: number;
+  private refillPerMs: number;
+  private clock: SchedulerClock;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private timerAt = 0;
+  // Nothing goes out before this time
+  private pausedUntil = 0;
+  // Prefetches wait until this time, leaving what is left for the user
+  private prefetchPausedUntil = 0;
+  private status: RateLimitStatus = { limitedUntil: null, queued: 0 };
+  private listeners = new Set<() => void>();
+
+  constructor({ capacity = 20, refillPerSecond = 10, clock = systemClock }: RequestSchedulerOptions = {}) {
+    this.capacity = capacity;
+    this.refillPerMs = refillPerSecond / 1000;
+    this.clock = clock;
+    this.tokens = capacity;
+    this.lastRefill = clock.now();
+  }
+
+  /**
+   * Resolves once the request may go out. Rejects with an aborted error if
+   * the signal fires while it is still queued.
+   */
+  acquire(ticket: RequestTicket, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { ticket, resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(queued => queued !== waiter);
+          reject(createAbortError());
+          this.drain();
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Holds every request until the given time, e.g. after a 429. The pause
+   * is surfaced through getStatus() so the UI can say when requests resume.
+   */
+  pauseUntil(time: number) {
+    if (!Number.isFinite(time)) return;
+    this.pausedUntil = Math.max(this.pausedUntil, time);
+    this.drain();
+  }
+
+  // Holds prefetches only, e.g. while the API reports its limit is nearly used up
+  pausePrefetchesUntil(time: number) {
+    if (!Number.isFinite(time)) return;
+    this.prefetchPausedUntil = Math.max(this.prefetchPausedUntil, time);
+    this.drain();
+  }
+
+  // Raises a request to user priority, moving it ahead if it is still queued
+  promote(ticket: RequestTicket) {
+    if (ticket.priority === 'user') return;
+    ticket.priority = 'user';
+    this.drain();
+  }
+
+  getStatus(): RateLimitStatus {
+    return this.status;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  now() {
+    return this.clock.now();
+  }
+
+  private refill(now: number) {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  // The next request allowed out: the oldest user request, otherwise the
+  // oldest prefetch unless prefetches are paused
+  private nextWaiter(now: number) {
+    const user = this.queue.find(waiter => waiter.ticket.priority === 'user');
+    if (user) return user;
+    return now >= this.prefetchPausedUntil ? this.queue[0] : undefined;
+  }
+
+  private drain() {
+    const now = this.clock.now();
+    this.refill(now);
+
+    let wakeAt: number | null = null;
+    if (now < this.pausedUntil) {
+      wakeAt = this.pausedUntil;
+    } else {
+      while (this.queue.length > 0) {
+        const waiter = this.nextWaiter(now);
+        if (!waiter) {
+          wakeAt = this.prefetchPausedUntil;
+          break;
+        }
+        if (this.tokens < 1) {
+          wakeAt = now + Math.ceil((1 - this.tokens) / this.refillPerMs);
+          break;
+        }
+
+        this.tokens -= 1;
+        this.queue = this.queue.filter(queued => queued !== waiter);
+        if (waiter.onAbort) {
+          waiter.signal.removeEventListener('abort', waiter.onAbort);
+        }
+        waiter.resolve();
+      }
+    }
+
+    this.scheduleDrain(this.queue.length > 0 || now < this.pausedUntil ? wakeAt : null);
+    this.updateStatus(now);
+  }
+
+  private scheduleDrain(at: number | null) {
+    if (this.timer && this.timerAt === at) return;
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (at === null) return;
+
+    this.timerAt = at;
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(0, at - this.clock.now()));
+  }
+
+  private updateStatus(now: number) {
+    const limitedUntil = now < this.pausedUntil ? this.pausedUntil : null;
+    const queued = this.queue.length;
+    if (limitedUntil === this.status.limitedUntil && queued === this.status.queued) return;
+
+    this.status = { limitedUntil, queued };
+    this.listeners.forEach(listener => listener());
+  }
+}
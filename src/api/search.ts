@@ -0,0 +1,64 @@
+import {
+  TMDBMediaType,
+  TMDBMovie,
+  TMDBMovieResult,
+  TMDBMultiSearchResponse,
+  TMDBMultiSearchResult,
+  TMDBPersonResult,
+  TMDBPersonSummary,
+  TMDBTVResult,
+  TMDBTVShow,
+  tmdbAPI,
+  tmdbClient,
+} from './apiClient';
+
+export type SearchResultType = 'all' | TMDBMediaType;
+
+export const searchResultTypes: Array<{ value: SearchResultType; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'movie', label: 'Movies' },
+  { value: 'tv', label: 'TV' },
+  { value: 'person', label: 'People' },
+];
+
+export const asMovieResult = (movie: TMDBMovie): TMDBMovieResult => ({ ...movie, media_type: 'movie' });
+export const asTVResult = (show: TMDBTVShow): TMDBTVResult => ({ ...show, media_type: 'tv' });
+export const asPersonResult = (person: TMDBPersonSummary): TMDBPersonResult => ({ ...person, media_type: 'person' });
+
+interface SearchPage<T> {
+  page: number;
+  results: T[];
+  total_pages: number;
+  total_results: number;
+}
+
+// Single-type endpoints leave out media_type, so results are tagged here to
+// match /search/multi. The response is copied rather than changed, since the
+// client shares it with other callers, and the copy keeps its cache info.
+export const tagResults = <T>(
+  response: SearchPage<T>,
+  tag: (result: T) => TMDBMultiSearchResult
+): TMDBMultiSearchResponse =>
+  tmdbClient.inheritCacheInfo(response, { ...response, results: response.results.map(tag) });
+
+/**
+ * Searches one kind of result, or everything through /search/multi. Results
+ * always carry media_type so callers can switch on it.
+ */
+export const searchByType = async (
+  type: SearchResultType,
+  query: string,
+  page = 1,
+  signal?: AbortSignal
+): Promise<TMDBMultiSearchResponse> => {
+  switch (type) {
+    case 'movie':
+      return tagResults(await tmdbAPI.searchMovies(query, page, signal), asMovieResult);
+    case 'tv':
+      return tagResults(await tmdbAPI.searchTV(query, page, signal), asTVResult);
+    case 'person':
+      return tagResults(await tmdbAPI.searchPeople(query, page, signal), asPersonResult);
+    default:
+      return tmdbAPI.searchMulti(query, page, signal);
+  }
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { cn } from '@/lib/utils';
+
+interface CachedDataNoticeProps {
+  cachedAt: number;
+  className?: string;
+}
+
+export function CachedDataNotice({ cachedAt, className }: CachedDataNoticeProps) {
+  return (
+    <Alert className={cn("border-warning/50 bg-warning/5", className)}>
+      <WifiOff className="h-4 w-4" />
+      <AlertDescription>
+        Showing cached data from {new Date(cachedAt).toLocaleString()}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { buttonVariants } from '@/components/ui/button';
+
+export type DataCategory = 'favorites' | 'history' | 'cache' | 'analytics' | 'preferences';
+
+const dataCategoryOptions: Array<{ value: DataCategory; label: string; description: string }> = [
+  { value: 'favorites', label: 'Favorites', description: 'Every movie you have saved' },
+  { value: 'history', label: 'Search history', description: 'Recent searches and searches waiting to be replayed' },
+  { value: 'cache', label: 'Cached responses', description: 'Movie data kept for faster loading and offline use' },
+  { value: 'analytics', label: 'Usage analytics', description: 'Locally stored usage events' },
+  { value: 'preferences', label: 'Preferences', description: 'Theme, language and other settings' },
+];
+
+const allCategories = dataCategoryOptions.map(({ value }) => value);
+
+interface ClearDataDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (categories: DataCategory[]) => void;
+}
+
+export function ClearDataDialog({ open, onOpenChange, onConfirm }: ClearDataDialogProps) {
+  const [selected, setSelected] = useState<DataCategory[]>(allCategories);
+
+  // Everything is selected each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelected(allCategories);
+    }
+  }, [open]);
+
+  const toggleCategory = (category: DataCategory, checked: boolean) => {
+    setSelected(prev =>
+      checked ? [...prev, category] : prev.filter(value => value !== category)
+    );
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Clear app data?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The selected data will be permanently deleted from this browser. This cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3">
+          {dataCategoryOptions.map(({ value, label, description }) => (
+            <div key={value} className="flex items-start gap-3">
+              <Checkbox
+                id={`clear-${value}`}
+                checked={selected.includes(value)}
+                onCheckedChange={(checked) => toggleCategory(value, checked === true)}
+                className="mt-0.5"
+              />
+              <div className="space-y-0.5">
+                <Label htmlFor={`clear-${value}`}>{label}</Label>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className={buttonVariants({ variant: 'destructive' })}
+            disabled={selected.length === 0}
+            onClick={() => onConfirm(selected)}
+          >
+            Clear Selected
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
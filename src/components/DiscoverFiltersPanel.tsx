@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { TMDBGenre } from '../api/apiClient';
+import { DiscoverFilters, DiscoverSortOption, defaultDiscoverFilters } from '../api/discover';
+
+interface DiscoverFiltersPanelProps {
+  filters: DiscoverFilters;
+  genres: TMDBGenre[];
+  onChange: (filters: DiscoverFilters) => void;
+  className?: string;
+}
+
+const MIN_YEAR = 1900;
+const MAX_YEAR = new Date().getFullYear() + 2;
+const MAX_RUNTIME = 240;
+const ANY = 'any';
+
+const sortOptions: Array<{ value: DiscoverSortOption; label: string }> = [
+  { value: 'popularity.desc', label: 'Most popular' },
+  { value: 'vote_average.desc', label: 'Highest rated' },
+  { value: 'primary_release_date.desc', label: 'Newest first' },
+  { value: 'primary_release_date.asc', label: 'Oldest first' },
+  { value: 'revenue.desc', label: 'Highest grossing' },
+  { value: 'original_title.asc', label: 'Title (A-Z)' },
+];
+
+const voteCountOptions = ['50', '100', '500', '1000', '5000'];
+
+const originalLanguageOptions = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'it', label: 'Italian' },
+  { value: 'pt', label: 'Portuguese' },
+  { value: 'ja', label: 'Japanese' },
+  { value: 'ko', label: 'Korean' },
+  { value: 'zh', label: 'Chinese' },
+  { value: 'hi', label: 'Hindi' },
+];
+
+// Slider ends mean "no bound", so they map back to null
+const fromRange = (value: number, bound: number) => (value === bound ? null : value);
+
+export function DiscoverFiltersPanel({ filters, genres, onChange, className }: DiscoverFiltersPanelProps) {
+  // Sliders move freely while dragging and only update filters on release
+  const [yearRange, setYearRange] = useState([MIN_YEAR, MAX_YEAR]);
+  const [runtimeRange, setRuntimeRange] = useState([0, MAX_RUNTIME]);
+  const [minRating, setMinRating] = useState([0]);
+
+  useEffect(() => {
+    setYearRange([filters.yearFrom ?? MIN_YEAR, filters.yearTo ?? MAX_YEAR]);
+    setRuntimeRange([filters.runtimeMin ?? 0, filters.runtimeMax ?? MAX_RUNTIME]);
+    setMinRating([filters.minRating ?? 0]);
+  }, [filters]);
+
+  const update = (updates: Partial<DiscoverFilters>) => {
+    onChange({ ...filters, ...updates });
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Filters
+        </CardTitle>
+        <Button variant="ghost" size="sm" onClick={() => onChange(defaultDiscoverFilters)}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Reset
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Genres */}
+        {genres.length > 0 && (
+          <div className="space-y-3">
+            <Label>Genres</Label>
+            <ToggleGroup
+              type="multiple"
+              size="sm"
+              variant="outline"
+              className="flex-wrap justify-start"
+              value={filters.genres.map(String)}
+              onValueChange={(values) => update({ genres: values.map(Number) })}
+            >
+              {genres.map((genre) => (
+                <ToggleGroupItem key={genre.id} value={String(genre.id)}>
+                  {genre.name}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        )}
+
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {/* Release Year */}
+          <div className="space-y-3">
+            <Label>
+              Release year: {yearRange[0] === MIN_YEAR ? 'Any' : yearRange[0]} – {yearRange[1] === MAX_YEAR ? 'Any' : yearRange[1]}
+            </Label>
+            <Slider
+              min={MIN_YEAR}
+              max={MAX_YEAR}
+              step={1}
+              minStepsBetweenThumbs={0}
+              value={yearRange}
+              onValueChange={setYearRange}
+              onValueCommit={([from, to]) => update({
+                yearFrom: fromRange(from, MIN_YEAR),
+                yearTo: fromRange(to, MAX_YEAR),
+              })}
+            />
+          </div>
+
+          {/* Runtime */}
+          <div className="space-y-3">
+            <Label>
+              Runtime: {runtimeRange[0]} – {runtimeRange[1] === MAX_RUNTIME ? `${MAX_RUNTIME}+` : runtimeRange[1]} min
+            </Label>
+            <Slider
+              min={0}
+              max={MAX_RUNTIME}
+              step={5}
+              value={runtimeRange}
+              onValueChange={setRuntimeRange}
+              onValueCommit={([min, max]) => update({
+                runtimeMin: fromRange(min, 0),
+                runtimeMax: fromRange(max, MAX_RUNTIME),
+              })}
+            />
+          </div>
+
+          {/* Minimum Rating */}
+          <div className="space-y-3">
+            <Label>Minimum rating: {minRating[0] === 0 ? 'Any' : `${minRating[0].toFixed(1)} / 10`}</Label>
+            <Slider
+              min={0}
+              max={10}
+              step={0.5}
+              value={minRating}
+              onValueChange={setMinRating}
+              onValueCommit={([rating]) => update({ minRating: fromRange(rating, 0) })}
+            />
+          </div>
+
+          {/* Minimum Votes */}
+          <div className="space-y-3">
+            <Label htmlFor="minVotes">Minimum votes</Label>
+            <Select
+              value={filters.minVotes !== null ? String(filters.minVotes) : ANY}
+              onValueChange={(value) => update({ minVotes: value === ANY ? null : Number(value) })}
+            >
+              <SelectTrigger id="minVotes">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {voteCountOptions.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {Number(value).toLocaleString()}+
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Original Language */}
+          <div className="space-y-3">
+            <Label htmlFor="originalLanguage">Original language</Label>
+            <Select
+              value={filters.originalLanguage ?? ANY}
+              onValueChange={(value) => update({ originalLanguage: value === ANY ? null : value })}
+            >
+              <SelectTrigger id="originalLanguage">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {originalLanguageOptions.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Sort Order */}
+          <div className="space-y-3">
+            <Label htmlFor="sortBy">Sort by</Label>
+            <Select
+              value={filters.sortBy}
+              onValueChange={(value) => update({ sortBy: value as DiscoverSortOption })}
+            >
+              <SelectTrigger id="sortBy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sortOptions.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { Heart, Clock, Settings as SettingsIcon } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Separator } from '@/components/ui/separator';
+import { FavoritesImportMode, ImportPreview } from '../services/dataImport';
+
+interface ImportDataDialogProps {
+  preview: ImportPreview | null;
+  currentFavoriteCount: number;
+  isImporting?: boolean;
+  onConfirm: (mode: FavoritesImportMode) => void;
+  onCancel: () => void;
+}
+
+export function ImportDataDialog({
+  preview,
+  currentFavoriteCount,
+  isImporting = false,
+  onConfirm,
+  onCancel,
+}: ImportDataDialogProps) {
+  const [mode, setMode] = useState<FavoritesImportMode>('merge');
+
+  // Start from the safe option for every new file
+  useEffect(() => {
+    setMode('merge');
+  }, [preview]);
+
+  if (!preview) return null;
+
+  const { data, newFavorites, existingFavoriteCount } = preview;
+  const preferenceEntries = Object.entries(data.preferences ?? {});
+  const exportedOn = data.exportDate ? new Date(data.exportDate).toLocaleString() : null;
+
+  return (
+    <Dialog open={!!preview} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Data</DialogTitle>
+          <DialogDescription>
+            {exportedOn ? `Exported on ${exportedOn}. ` : ''}Review what will be imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          {/* Favorites */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 font-medium">
+              <Heart className="h-4 w-4" />
+              {data.favorites.length} {data.favorites.length === 1 ? 'favorite' : 'favorites'}
+            </div>
+            <p className="text-muted-foreground">
+              {newFavorites.length} new, {existingFavoriteCount} already saved
+            </p>
+
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as FavoritesImportMode)}>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="merge" id="import-merge" className="mt-0.5" />
+                <Label htmlFor="import-merge" className="font-normal leading-snug">
+                  Merge: add {newFavorites.length} new {newFavorites.length === 1 ? 'title' : 'titles'} to your favorites
+                </Label>
+              </div>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="replace" id="import-replace" className="mt-0.5" />
+                <Label htmlFor="import-replace" className="font-normal leading-snug">
+                  Replace: remove your {currentFavoriteCount} current favorites and keep only the{' '}
+                  {data.favorites.length} from the file
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <Separator />
+
+          {/* Search History */}
+          <div className="flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            <span>
+              {data.searchHistory.length} search history {data.searchHistory.length === 1 ? 'entry' : 'entries'} will be merged
+            </span>
+          </div>
+
+          {/* Preferences */}
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <SettingsIcon className="h-4 w-4" />
+              <span>
+                {preferenceEntries.length > 0 ? 'Preferences will be restored' : 'No preferences in this file'}
+              </span>
+            </div>
+            {preferenceEntries.length > 0 && (
+              <p className="text-muted-foreground pl-6">
+                {preferenceEntries.map(([key, value]) => `${key}: ${value}`).join(', ')}
+              </p>
+            )}
+          </div>
+
+          {data.analytics.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Usage analytics in the file are not imported.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(mode)}
+            variant={mode === 'replace' ? 'destructive' : 'default'}
+            disabled={isImporting}
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,53 @@
+import React, { useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+
+interface InfiniteScrollTriggerProps {
+  onLoadMore: () => void;
+  hasMore: boolean;
+  isLoading: boolean;
+  // A sentinel that stays in view fires no new events, so check again
+  // whenever the list grows
+  itemCount: number;
+  className?: string;
+}
+
+/**
+ * Sits below a list and asks for more once it scrolls into view. Loading
+ * starts a little before the end is reached so the list keeps up with scrolling.
+ */
+export function InfiniteScrollTrigger({
+  onLoadMore,
+  hasMore,
+  isLoading,
+  itemCount,
+  className,
+}: InfiniteScrollTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '400px 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore, hasMore, isLoading, itemCount]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinelRef} className={cn("flex justify-center py-8", className)}>
+      {isLoading && (
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Film, Home, Heart, Settings, Github } from 'lucide-react';
+import { Film, Home, Compass, Heart, Settings, Github } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { useFavorites } from '../hooks/useFavorites';
+import { RateLimitNotice } from './RateLimitNotice';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { MovieRouteState } from '../hooks/useMovieNavigation';
+import { useMovieProvider } from '../hooks/useMovieProvider';
 import { cn } from '@/lib/utils';
 
 interface LayoutProps {
@@ -12,13 +15,18 @@ interface LayoutProps {
 
 export function Layout({ children }: LayoutProps) {
   const location = useLocation();
-  const { favorites } = useFavorites();
+  const { activeFavorites } = useFavorites();
+  const { features } = useMovieProvider();
+  // Keep the page under an open movie modal highlighted
+  const { backgroundLocation } = (location.state as MovieRouteState | null) ?? {};
+  const activePath = (backgroundLocation ?? location).pathname;
 
   const navigation = [
     { name: 'Home', href: '/', icon: Home },
-    { name: 'Favorites', href: '/favorites', icon: Heart, badge: favorites.length },
+    { name: 'Discover', href: '/discover', icon: Compass, hidden: !features.discover },
+    { name: 'Favorites', href: '/favorites', icon: Heart, badge: activeFavorites.length },
     { name: 'Settings', href: '/settings', icon: Settings },
-  ];
+  ].filter(item => !item.hidden);
 
   return (
     <div className="min-h-screen bg-background">
@@ -38,7 +46,7 @@ export function Layout({ children }: LayoutProps) {
           {/* Navigation */}
           <nav className="flex items-center space-x-1 flex-1">
             {navigation.map(({ name, href, icon: Icon, badge }) => {
-              const isActive = location.pathname === href;
+              const isActive = activePath === href;
               
               return (
                 <Button
@@ -83,6 +91,7 @@ export function Layout({ children }: LayoutProps) {
 
       {/* Main Content */}
       <main className="container py-6">
+        <RateLimitNotice className="mb-6" />
         {children}
       </main>
 
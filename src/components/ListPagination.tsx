@@ -0,0 +1,78 @@
+import React from 'react';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { cn } from '@/lib/utils';
+
+interface ListPaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  className?: string;
+}
+
+// First, last and the pages around the current one, with gaps marked by null
+const getVisiblePages = (page: number, pageCount: number): Array<number | null> => {
+  const pages: Array<number | null> = [];
+  for (let candidate = 1; candidate <= pageCount; candidate++) {
+    if (candidate === 1 || candidate === pageCount || Math.abs(candidate - page) <= 1) {
+      pages.push(candidate);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+export function ListPagination({ page, pageCount, onPageChange, className }: ListPaginationProps) {
+  if (pageCount <= 1) return null;
+
+  const handleClick = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <Pagination className={cn("pt-8", className)}>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={handleClick(page - 1)}
+            aria-disabled={page === 1}
+            className={cn(page === 1 && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+
+        {getVisiblePages(page, pageCount).map((candidate, index) => (
+          <PaginationItem key={candidate ?? `gap-${index}`}>
+            {candidate === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={candidate === page} onClick={handleClick(candidate)}>
+                {candidate}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={handleClick(page + 1)}
+            aria-disabled={page === pageCount}
+            className={cn(page === pageCount && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
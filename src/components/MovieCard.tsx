@@ -3,19 +3,26 @@ import { Heart, Star, Calendar } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { TMDBMovie, tmdbAPI } from '../api/apiClient';
-import { useFavorites } from '../hooks/useFavorites';
+import { Movie } from '../api/providers/types';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { useGenres } from '../contexts/GenresContext';
+import { useMoviePrefetch } from '../hooks/useMoviePrefetch';
+import { useMovieProvider } from '../hooks/useMovieProvider';
 import { cn } from '@/lib/utils';
 
 interface MovieCardProps {
-  movie: TMDBMovie;
-  onDetailsClick: (movie: TMDBMovie) => void;
+  movie: Movie;
+  onDetailsClick: (movie: Movie) => void;
   className?: string;
 }
 
 export function MovieCard({ movie, onDetailsClick, className }: MovieCardProps) {
   const { isFavorite, toggleFavorite } = useFavorites();
+  const { getGenreNames } = useGenres();
+  const prefetchHandlers = useMoviePrefetch(movie);
+  const provider = useMovieProvider();
   const isMovieFavorite = isFavorite(movie.id);
+  const genreNames = getGenreNames(movie.genre_ids ?? []).slice(0, 2);
 
   const handleFavoriteClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -26,8 +33,15 @@ export function MovieCard({ movie, onDetailsClick, className }: MovieCardProps)
     onDetailsClick(movie);
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+      e.preventDefault();
+      onDetailsClick(movie);
+    }
+  };
+
   const releaseYear = movie.release_date ? new Date(movie.release_date).getFullYear() : 'TBA';
-  const posterUrl = tmdbAPI.getImageUrl(movie.poster_path, 'w500');
+  const posterUrl = provider.getImageUrl(movie.poster_path, 'w500');
 
   return (
     <Card 
@@ -35,9 +49,13 @@ export function MovieCard({ movie, onDetailsClick, className }: MovieCardProps)
         "group cursor-pointer overflow-hidden transition-all duration-300",
         "hover:scale-105 hover:shadow-card bg-card/80 backdrop-blur-sm",
         "border-border/50 hover:border-primary/20",
+        "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
         className
       )}
       onClick={handleCardClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+      {...prefetchHandlers}
     >
       <CardContent className="p-0">
         {/* Movie Poster */}
@@ -92,6 +110,16 @@ export function MovieCard({ movie, onDetailsClick, className }: MovieCardProps)
             <Calendar className="mr-1 h-3 w-3" />
             {releaseYear}
           </div>
+
+          {genreNames.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {genreNames.map((name) => (
+                <Badge key={name} variant="outline" className="text-xs font-normal">
+                  {name}
+                </Badge>
+              ))}
+            </div>
+          )}
           
           {movie.overview && (
             <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed">
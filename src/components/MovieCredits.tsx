@@ -0,0 +1,101 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { User } from 'lucide-react';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { tmdbAPI } from '../api/apiClient';
+import { Credits, CrewMember } from '../api/providers/types';
+import { cn } from '@/lib/utils';
+
+interface MovieCreditsProps {
+  credits: Credits;
+  className?: string;
+}
+
+const WRITING_JOBS = ['Screenplay', 'Writer', 'Story', 'Novel', 'Author'];
+const COMPOSER_JOBS = ['Original Music Composer', 'Music'];
+
+// One entry per person, keeping the first job listed for them
+const uniqueByPerson = (members: CrewMember[]) =>
+  members.filter((member, index) => members.findIndex(m => m.id === member.id) === index);
+
+const getKeyCrew = (crew: CrewMember[]) => [
+  { label: 'Director', members: uniqueByPerson(crew.filter(m => m.job === 'Director')) },
+  { label: 'Writers', members: uniqueByPerson(crew.filter(m => WRITING_JOBS.includes(m.job))) },
+  { label: 'Music', members: uniqueByPerson(crew.filter(m => COMPOSER_JOBS.includes(m.job))) },
+].filter(({ members }) => members.length > 0);
+
+export function MovieCredits({ credits, className }: MovieCreditsProps) {
+  const cast = [...credits.cast].sort((a, b) => a.order - b.order).slice(0, 20);
+  const keyCrew = getKeyCrew(credits.crew);
+
+  if (cast.length === 0 && keyCrew.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      {/* Cast Strip */}
+      {cast.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold mb-3">Cast</h3>
+          <ScrollArea className="w-full whitespace-nowrap">
+            <div className="flex gap-4 pb-4">
+              {cast.map((member) => (
+                <Link
+                  key={member.credit_id}
+                  to={`/person/${member.id}`}
+                  className="group w-24 flex-shrink-0 space-y-2"
+                >
+                  <div className="aspect-[2/3] overflow-hidden rounded-md bg-muted">
+                    {member.profile_path ? (
+                      <img
+                        src={tmdbAPI.getImageUrl(member.profile_path, 'w185')}
+                        alt={member.name}
+                        className="h-full w-full object-cover"
+                        loading="lazy"
+                      />
+                    ) : (
+                      <div className="flex h-full w-full items-center justify-center">
+                        <User className="h-8 w-8 text-muted-foreground" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="whitespace-normal">
+                    <p className="text-sm font-medium leading-tight line-clamp-2 group-hover:text-primary">
+                      {member.name}
+                    </p>
+                    {member.character && (
+                      <p className="text-xs text-muted-foreground leading-tight line-clamp-2">
+                        {member.character}
+                      </p>
+                    )}
+                  </div>
+                </Link>
+              ))}
+            </div>
+            <ScrollBar orientation="horizontal" />
+          </ScrollArea>
+        </div>
+      )}
+
+      {/* Key Crew */}
+      {keyCrew.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {keyCrew.map(({ label, members }) => (
+            <div key={label} className="space-y-1">
+              <h4 className="text-sm font-semibold">{label}</h4>
+              <p className="text-sm text-muted-foreground">
+                {members.slice(0, 3).map((member, index) => (
+                  <React.Fragment key={member.id}>
+                    {index > 0 && ', '}
+                    <Link to={`/person/${member.id}`} className="hover:text-primary hover:underline">
+                      {member.name}
+                    </Link>
+                  </React.Fragment>
+                ))}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
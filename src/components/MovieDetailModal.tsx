@@ -1,54 +1,74 @@
-import React, { useState, useEffect } from 'react';
-import { X, Heart, Star, Calendar, Clock, Globe, DollarSign } from 'lucide-react';
+import React, { useEffect } from 'react';
+import { X, Heart, Star, Calendar, Clock, Globe, DollarSign, ArrowLeft } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogClose } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { TMDBMovie, TMDBMovieDetails, tmdbAPI } from '../api/apiClient';
-import { useFavorites } from '../hooks/useFavorites';
+import { tmdbClient } from '../api/apiClient';
+import { Movie } from '../api/providers/types';
+import { CachedDataNotice } from './CachedDataNotice';
+import { MovieCredits } from './MovieCredits';
+import { MovieVideos } from './MovieVideos';
+import { RelatedMoviesRail } from './RelatedMoviesRail';
+import { useFavorites } from '../contexts/FavoritesContext';
 import { useToast } from '../hooks/use-toast';
+import { useMovieDetails } from '../hooks/useMovieQueries';
+import { useMovieProvider } from '../hooks/useMovieProvider';
+import { dbHelpers } from '../services/idb';
 import { cn } from '@/lib/utils';
 
 interface MovieDetailModalProps {
-  movie: TMDBMovie | null;
+  movie: Movie | null;
   isOpen: boolean;
   onClose: () => void;
+  onRelatedMovieSelect: (movie: Movie) => void;
+  // Shown as "Back to <label>" when the modal was reached from another movie
+  backLabel?: string;
+  onBack?: () => void;
 }
 
-export function MovieDetailModal({ movie, isOpen, onClose }: MovieDetailModalProps) {
-  const [movieDetails, setMovieDetails] = useState<TMDBMovieDetails | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  
+export function MovieDetailModal({
+  movie,
+  isOpen,
+  onClose,
+  onRelatedMovieSelect,
+  backLabel,
+  onBack,
+}: MovieDetailModalProps) {
   const { isFavorite, toggleFavorite } = useFavorites();
   const { toast } = useToast();
+  const provider = useMovieProvider();
+  const {
+    data: movieDetails,
+    isLoading,
+    error: queryError,
+    refetch,
+  } = useMovieDetails(movie && isOpen ? movie.id : null);
 
   const isMovieFavorite = movie ? isFavorite(movie.id) : false;
+  const error = queryError ? queryError.message || 'Failed to load movie details' : null;
+  const cachedAt = movieDetails ? tmdbClient.getCacheInfo(movieDetails)?.cachedAt ?? null : null;
 
   useEffect(() => {
-    if (movie && isOpen) {
-      loadMovieDetails(movie.id);
-    }
-  }, [movie, isOpen]);
-
-  const loadMovieDetails = async (movieId: number) => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      const details = await tmdbAPI.getMovieDetails(movieId);
-      setMovieDetails(details);
-    } catch (err) {
-      console.error('Failed to load movie details:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load movie details');
+    if (queryError) {
+      console.error('Failed to load movie details:', queryError);
       toast({
         title: "Error",
         description: "Failed to load movie details. Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
     }
+  }, [queryError]);
+
+  const handleRelatedMovieSelect = async (related: Movie) => {
+    onRelatedMovieSelect(related);
+
+    await dbHelpers.trackEvent('movie_viewed', {
+      movieId: related.id,
+      title: related.title,
+      from: 'related',
+    });
   };
 
   const handleFavoriteClick = () => {
@@ -74,8 +94,8 @@ export function MovieDetailModal({ movie, isOpen, onClose }: MovieDetailModalPro
 
   if (!movie) return null;
 
-  const backdropUrl = tmdbAPI.getImageUrl(movie.backdrop_path, 'w780');
-  const posterUrl = tmdbAPI.getImageUrl(movie.poster_path, 'w500');
+  const backdropUrl = provider.getImageUrl(movie.backdrop_path, 'w780');
+  const posterUrl = provider.getImageUrl(movie.poster_path, 'w500');
   const releaseYear = movie.release_date ? new Date(movie.release_date).getFullYear() : 'TBA';
 
   return (
@@ -86,7 +106,8 @@ export function MovieDetailModal({ movie, isOpen, onClose }: MovieDetailModalPro
           <span className="sr-only">Close</span>
         </DialogClose>
 
-        <ScrollArea className="max-h-[90vh]">
+        {/* Remount on navigation so each movie starts scrolled to the top */}
+        <ScrollArea key={movie.id} className="max-h-[90vh]">
           {/* Backdrop Header */}
           <div className="relative h-64 md:h-80 overflow-hidden">
             <img
@@ -155,7 +176,14 @@ export function MovieDetailModal({ movie, isOpen, onClose }: MovieDetailModalPro
           {/* Content */}
           <div className="p-6 space-y-6">
             {/* Action Buttons */}
-            <div className="flex gap-3">
+            <div className="flex flex-wrap gap-3">
+              {onBack && (
+                <Button onClick={onBack} variant="ghost" className="flex items-center gap-2">
+                  <ArrowLeft className="h-4 w-4" />
+                  {backLabel ? `Back to ${backLabel}` : 'Back'}
+                </Button>
+              )}
+
               <Button
                 onClick={handleFavoriteClick}
                 variant={isMovieFavorite ? "destructive" : "outline"}
@@ -175,6 +203,11 @@ export function MovieDetailModal({ movie, isOpen, onClose }: MovieDetailModalPro
               )}
             </div>
 
+            {/* Offline Indicator */}
+            {cachedAt && !isLoading && (
+              <CachedDataNotice cachedAt={cachedAt} />
+            )}
+
             {/* Loading State */}
             {isLoading && (
               <div className="flex justify-center py-8">
@@ -186,7 +219,7 @@ export function MovieDetailModal({ movie, isOpen, onClose }: MovieDetailModalPro
             {error && !isLoading && (
               <div className="text-center py-8">
                 <p className="text-destructive mb-4">{error}</p>
-                <Button onClick={() => loadMovieDetails(movie.id)} variant="outline">
+                <Button onClick={() => refetch()} variant="outline">
                   Try Again
                 </Button>
               </div>
@@ -206,10 +239,18 @@ export function MovieDetailModal({ movie, isOpen, onClose }: MovieDetailModalPro
                 <div>
                   <h3 className="text-lg font-semibold mb-3">Overview</h3>
                   <p className="text-muted-foreground leading-relaxed">
-                    {movie.overview || "No overview available."}
+                    {movieDetails.overview || movie.overview || "No overview available."}
                   </p>
                 </div>
 
+                {/* Trailers and Clips */}
+                {provider.features.videos && <MovieVideos movieId={movie.id} />}
+
+                {/* Cast and Crew */}
+                {movieDetails.credits && (
+                  <MovieCredits credits={movieDetails.credits} />
+                )}
+
                 <Separator />
 
                 {/* Additional Details */}
@@ -218,15 +259,19 @@ export function MovieDetailModal({ movie, isOpen, onClose }: MovieDetailModalPro
                     <h3 className="text-lg font-semibold">Details</h3>
                     
                     <div className="space-y-2 text-sm">
-                      <div className="flex justify-between">
-                        <span className="text-muted-foreground">Status:</span>
-                        <span>{movieDetails.status}</span>
-                      </div>
+                      {movieDetails.status && (
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Status:</span>
+                          <span>{movieDetails.status}</span>
+                        </div>
+                      )}
                       
-                      <div className="flex justify-between">
-                        <span className="text-muted-foreground">Original Language:</span>
-                        <span className="uppercase">{movieDetails.original_language}</span>
-                      </div>
+                      {movieDetails.original_language && (
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Original Language:</span>
+                          <span className="uppercase">{movieDetails.original_language}</span>
+                        </div>
+                      )}
                       
                       {movieDetails.budget > 0 && (
                         <div className="flex justify-between">
@@ -245,7 +290,7 @@ export function MovieDetailModal({ movie, isOpen, onClose }: MovieDetailModalPro
                   </div>
 
                   {/* Production Companies */}
-                  {movieDetails.production_companies.length > 0 && (
+                  {movieDetails.production_companies?.length > 0 && (
                     <div className="space-y-4">
                       <h3 className="text-lg font-semibold">Production</h3>
                       <div className="space-y-2">
@@ -260,6 +305,14 @@ export function MovieDetailModal({ movie, isOpen, onClose }: MovieDetailModalPro
                 </div>
               </div>
             )}
+
+            {/* Related Movies */}
+            {!isLoading && (
+              <>
+                <Separator />
+                <RelatedMoviesRail movieId={movie.id} onMovieSelect={handleRelatedMovieSelect} />
+              </>
+            )}
           </div>
         </ScrollArea>
       </DialogContent>
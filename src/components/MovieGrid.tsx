@@ -1,15 +1,25 @@
 import React from 'react';
 import { MovieCard } from './MovieCard';
-import { TMDBMovie } from '../api/apiClient';
+import { TVShowCard } from './TVShowCard';
+import { PersonCard } from './PersonCard';
+import { TMDBMultiSearchResult, TMDBTVShow } from '../api/apiClient';
+import { Movie } from '../api/providers/types';
 import { cn } from '@/lib/utils';
 
+// Plain movies, or mixed results from multi search
+type GridItem = Movie | TMDBMultiSearchResult;
+
 interface MovieGridProps {
-  movies: TMDBMovie[];
-  onMovieClick: (movie: TMDBMovie) => void;
+  movies: GridItem[];
+  onMovieClick: (movie: Movie) => void;
+  onTVShowClick?: (show: TMDBTVShow) => void;
   className?: string;
 }
 
-export function MovieGrid({ movies, onMovieClick, className }: MovieGridProps) {
+const getItemKey = (item: GridItem) =>
+  'media_type' in item ? `${item.media_type}-${item.id}` : `movie-${item.id}`;
+
+export function MovieGrid({ movies, onMovieClick, onTVShowClick, className }: MovieGridProps) {
   if (movies.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-16 text-center">
@@ -31,13 +41,21 @@ export function MovieGrid({ movies, onMovieClick, className }: MovieGridProps) {
         className
       )}
     >
-      {movies.map((movie) => (
-        <MovieCard
-          key={movie.id}
-          movie={movie}
-          onDetailsClick={onMovieClick}
-        />
-      ))}
+      {movies.map((item) => {
+        if ('media_type' in item && item.media_type === 'tv') {
+          return <TVShowCard key={getItemKey(item)} show={item} onDetailsClick={onTVShowClick} />;
+        }
+        if ('media_type' in item && item.media_type === 'person') {
+          return <PersonCard key={getItemKey(item)} person={item} />;
+        }
+        return (
+          <MovieCard
+            key={getItemKey(item)}
+            movie={item}
+            onDetailsClick={onMovieClick}
+          />
+        );
+      })}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import { MovieCard } from './MovieCard';
+import { Movie, MoviePage } from '../api/providers/types';
+import { useInfiniteMovieList } from '../hooks/useMovieQueries';
+import { cn } from '@/lib/utils';
+
+interface MovieRailProps {
+  heading: React.ReactNode;
+  // The rail starts over from the first page whenever this changes
+  listKey: string;
+  fetchPage: (page: number, signal?: AbortSignal) => Promise<MoviePage>;
+  onMovieSelect: (movie: Movie) => void;
+  emptyMessage: string;
+  actions?: React.ReactNode;
+  className?: string;
+}
+
+export function MovieRail({
+  heading,
+  listKey,
+  fetchPage,
+  onMovieSelect,
+  emptyMessage,
+  actions,
+  className,
+}: MovieRailProps) {
+  const [carouselApi, setCarouselApi] = useState<CarouselApi>();
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    isFetchNextPageError,
+    refetch,
+    error,
+  } = useInfiniteMovieList(listKey, fetchPage);
+
+  // Pages can overlap, so skip movies already in the rail
+  const movies = useMemo(() => {
+    const seen = new Set<number>();
+    return (data?.pages ?? [])
+      .flatMap(page => page.results)
+      .filter(movie => {
+        if (seen.has(movie.id)) return false;
+        seen.add(movie.id);
+        return true;
+      });
+  }, [data]);
+
+  useEffect(() => {
+    if (error) {
+      console.error(`Failed to load ${listKey} movies:`, error);
+    }
+  }, [error]);
+
+  // A failed later page is fetched again on its own; otherwise start over
+  const handleRetry = () => {
+    if (isFetchNextPageError) {
+      fetchNextPage();
+    } else {
+      refetch();
+    }
+  };
+
+  useEffect(() => {
+    carouselApi?.scrollTo(0, true);
+  }, [listKey]);
+
+  // Fetch the next page as the rail nears its last slides
+  useEffect(() => {
+    if (!carouselApi) return;
+
+    const handleSelect = () => {
+      const lastSnap = carouselApi.scrollSnapList().length - 1;
+      if (carouselApi.selectedScrollSnap() >= lastSnap - 1 && hasNextPage && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    };
+
+    carouselApi.on('select', handleSelect);
+    return () => {
+      carouselApi.off('select', handleSelect);
+    };
+  }, [carouselApi, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center justify-between gap-4">
+        {heading}
+        {actions}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between">
+            <span>{error.message || 'Failed to load movies'}</span>
+            <Button variant="outline" size="sm" onClick={handleRetry} className="ml-4">
+              Try Again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && movies.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : movies.length === 0 ? (
+        !error && <p className="text-sm text-muted-foreground py-4">{emptyMessage}</p>
+      ) : (
+        <Carousel setApi={setCarouselApi} opts={{ align: 'start', slidesToScroll: 'auto' }}>
+          <CarouselContent>
+            {movies.map((movie) => (
+              <CarouselItem key={movie.id} className="basis-1/2 sm:basis-1/3 md:basis-1/4">
+                <MovieCard movie={movie} onDetailsClick={onMovieSelect} />
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          <CarouselPrevious className="left-2" />
+          <CarouselNext className="right-2" />
+        </Carousel>
+      )}
+    </div>
+  );
+}
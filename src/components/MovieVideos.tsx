@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { Play, Film } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { TMDBVideo, tmdbAPI, APIError } from '../api/apiClient';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { rankVideos, getVideoEmbedUrl, getVideoThumbnailUrl } from '@/lib/videos';
+import { cn } from '@/lib/utils';
+
+interface MovieVideosProps {
+  movieId: number;
+  className?: string;
+}
+
+export function MovieVideos({ movieId, className }: MovieVideosProps) {
+  const [videos, setVideos] = useState<TMDBVideo[]>([]);
+  const [selectedVideo, setSelectedVideo] = useState<TMDBVideo | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const { preferences } = usePreferences();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadVideos(controller.signal);
+    return () => controller.abort();
+  }, [movieId, preferences.language]);
+
+  const loadVideos = async (signal: AbortSignal) => {
+    try {
+      const response = await tmdbAPI.getMovieVideos(movieId, signal);
+      if (signal.aborted) return;
+      const ranked = rankVideos(response.results, preferences.language);
+      setVideos(ranked);
+      setSelectedVideo(ranked[0] ?? null);
+      setIsPlaying(false);
+    } catch (err) {
+      if ((err as APIError).isAborted) return;
+      // Videos are optional extras, so the rest of the modal carries on without them
+      console.error('Failed to load movie videos:', err);
+      setVideos([]);
+      setSelectedVideo(null);
+    }
+  };
+
+  const handleVideoSelect = (video: TMDBVideo) => {
+    setSelectedVideo(video);
+    setIsPlaying(true);
+  };
+
+  if (!selectedVideo) return null;
+
+  const thumbnailUrl = getVideoThumbnailUrl(selectedVideo);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <h3 className="text-lg font-semibold">Videos</h3>
+
+      {/* Player */}
+      <div className="relative aspect-video overflow-hidden rounded-lg bg-muted">
+        {isPlaying ? (
+          <iframe
+            key={selectedVideo.key}
+            src={getVideoEmbedUrl(selectedVideo, true)}
+            title={selectedVideo.name}
+            className="h-full w-full"
+            allow="autoplay; encrypted-media; picture-in-picture; fullscreen"
+            allowFullScreen
+          />
+        ) : (
+          <button
+            className="group relative h-full w-full"
+            onClick={() => setIsPlaying(true)}
+            aria-label={`Play ${selectedVideo.name}`}
+          >
+            {thumbnailUrl ? (
+              <img
+                src={thumbnailUrl}
+                alt=""
+                className="h-full w-full object-cover"
+                loading="lazy"
+              />
+            ) : (
+              <Film className="mx-auto h-12 w-12 text-muted-foreground" />
+            )}
+            <span className="absolute inset-0 flex items-center justify-center bg-black/30 transition-colors group-hover:bg-black/40">
+              <span className="flex h-16 w-16 items-center justify-center rounded-full bg-primary text-primary-foreground shadow-lg">
+                <Play className="h-7 w-7 fill-current" />
+              </span>
+            </span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-medium line-clamp-1">{selectedVideo.name}</span>
+        <Badge variant="secondary">{selectedVideo.type}</Badge>
+      </div>
+
+      {/* Alternative Clips */}
+      {videos.length > 1 && (
+        <ScrollArea className="w-full whitespace-nowrap">
+          <div className="flex gap-3 pb-4">
+            {videos.map((video) => (
+              <button
+                key={video.id}
+                onClick={() => handleVideoSelect(video)}
+                className={cn(
+                  "w-40 flex-shrink-0 space-y-1 rounded-md p-1 text-left transition-colors",
+                  "hover:bg-muted/50",
+                  video.id === selectedVideo.id && "bg-muted ring-1 ring-primary/40"
+                )}
+              >
+                <div className="aspect-video overflow-hidden rounded bg-muted">
+                  {getVideoThumbnailUrl(video) && (
+                    <img
+                      src={getVideoThumbnailUrl(video)}
+                      alt=""
+                      className="h-full w-full object-cover"
+                      loading="lazy"
+                    />
+                  )}
+                </div>
+                <p className="whitespace-normal text-xs font-medium leading-tight line-clamp-2">
+                  {video.name}
+                </p>
+                <p className="text-xs text-muted-foreground">{video.type}</p>
+              </button>
+            ))}
+          </div>
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
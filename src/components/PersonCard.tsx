@@ -0,0 +1,72 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { User } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { TMDBPersonSummary, tmdbAPI } from '../api/apiClient';
+import { cn } from '@/lib/utils';
+
+interface PersonCardProps {
+  person: TMDBPersonSummary;
+  className?: string;
+}
+
+export function PersonCard({ person, className }: PersonCardProps) {
+  const knownForTitles = (person.known_for ?? [])
+    .map(item => (item.media_type === 'tv' ? item.name : item.title))
+    .filter(Boolean)
+    .slice(0, 3);
+
+  return (
+    <Link to={`/person/${person.id}`} className="block">
+      <Card
+        className={cn(
+          "group h-full overflow-hidden transition-all duration-300",
+          "hover:scale-105 hover:shadow-card bg-card/80 backdrop-blur-sm",
+          "border-border/50 hover:border-primary/20",
+          className
+        )}
+      >
+        <CardContent className="p-0">
+          {/* Profile Photo */}
+          <div className="relative aspect-[2/3] overflow-hidden bg-muted">
+            {person.profile_path ? (
+              <img
+                src={tmdbAPI.getImageUrl(person.profile_path, 'w500')}
+                alt={person.name}
+                className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-110"
+                loading="lazy"
+              />
+            ) : (
+              <div className="flex h-full w-full items-center justify-center">
+                <User className="h-16 w-16 text-muted-foreground" />
+              </div>
+            )}
+
+            {person.known_for_department && (
+              <Badge
+                variant="secondary"
+                className="absolute bottom-2 left-2 bg-background/90 backdrop-blur-sm"
+              >
+                {person.known_for_department}
+              </Badge>
+            )}
+          </div>
+
+          {/* Person Info */}
+          <div className="p-4 space-y-2">
+            <h3 className="font-semibold text-card-foreground line-clamp-1 group-hover:text-primary transition-colors">
+              {person.name}
+            </h3>
+
+            {knownForTitles.length > 0 && (
+              <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed">
+                Known for {knownForTitles.join(', ')}
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </Link>
+  );
+}
@@ -0,0 +1,24 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useRateLimitStatus } from '../hooks/useRateLimitStatus';
+import { cn } from '@/lib/utils';
+
+interface RateLimitNoticeProps {
+  className?: string;
+}
+
+export function RateLimitNotice({ className }: RateLimitNoticeProps) {
+  const { isRateLimited, retryInSeconds } = useRateLimitStatus();
+
+  if (!isRateLimited) return null;
+
+  return (
+    <Alert className={cn("border-warning/50 bg-warning/5", className)} role="status">
+      <Timer className="h-4 w-4" />
+      <AlertDescription>
+        Rate limited by TMDB, retrying in {retryInSeconds}s
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MovieRail } from './MovieRail';
+import { Movie, RelatedMoviesKind } from '../api/providers/types';
+import { useMovieProvider } from '../hooks/useMovieProvider';
+
+interface RelatedMoviesRailProps {
+  movieId: number;
+  onMovieSelect: (movie: Movie) => void;
+  className?: string;
+}
+
+export function RelatedMoviesRail({ movieId, onMovieSelect, className }: RelatedMoviesRailProps) {
+  const provider = useMovieProvider();
+  const [kind, setKind] = useState<RelatedMoviesKind>('recommendations');
+
+  return (
+    <MovieRail
+      heading={<h3 className="text-lg font-semibold">More Like This</h3>}
+      listKey={`${kind}-${movieId}`}
+      fetchPage={(page, signal) => provider.getRelatedMovies(movieId, kind, page, signal)}
+      onMovieSelect={onMovieSelect}
+      emptyMessage={`No ${kind === 'recommendations' ? 'recommendations' : 'similar movies'} found.`}
+      actions={
+        <Tabs value={kind} onValueChange={(value) => setKind(value as RelatedMoviesKind)}>
+          <TabsList>
+            <TabsTrigger value="recommendations">Recommended</TabsTrigger>
+            <TabsTrigger value="similar">Similar</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      }
+      className={className}
+    />
+  );
+}
@@ -1,11 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { Search, X, Clock, TrendingUp } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Search, X, Clock, TrendingUp, User } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useDebounce } from '../hooks/useDebounce';
 import { dbHelpers } from '../services/idb';
+import { TMDBPersonSummary, tmdbAPI, APIError } from '../api/apiClient';
+import { SearchResultType, searchResultTypes } from '../api/search';
 import { cn } from '@/lib/utils';
 
 interface SearchBarProps {
@@ -14,21 +18,33 @@ interface SearchBarProps {
   onSearch: (query: string) => void;
   isLoading?: boolean;
   placeholder?: string;
+  /** Also suggest matching people, linking to their pages */
+  includePeople?: boolean;
+  /** Shows the All / Movies / TV / People switch when onResultTypeChange is given */
+  resultType?: SearchResultType;
+  onResultTypeChange?: (type: SearchResultType) => void;
   className?: string;
 }
 
+const MAX_PEOPLE_SUGGESTIONS = 4;
+
 export function SearchBar({ 
   value, 
   onChange, 
   onSearch, 
   isLoading = false,
   placeholder = "Search for movies...",
+  includePeople = false,
+  resultType = 'all',
+  onResultTypeChange,
   className 
 }: SearchBarProps) {
   const [isFocused, setIsFocused] = useState(false);
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
+  const [people, setPeople] = useState<TMDBPersonSummary[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   
+  const navigate = useNavigate();
   const debouncedQuery = useDebounce(value, 300);
 
   // Load search history on mount
@@ -43,6 +59,24 @@ export function SearchBar({
     }
   }, [debouncedQuery]);
 
+  // Look up people matching the query as it settles
+  useEffect(() => {
+    if (!includePeople || debouncedQuery.trim().length < 2) {
+      setPeople([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    tmdbAPI.searchPeople(debouncedQuery.trim(), 1, controller.signal)
+      .then(response => setPeople(response.results.slice(0, MAX_PEOPLE_SUGGESTIONS)))
+      .catch((error) => {
+        if ((error as APIError).isAborted) return;
+        console.error('Failed to search people:', error);
+        setPeople([]);
+      });
+    return () => controller.abort();
+  }, [debouncedQuery, includePeople]);
+
   const loadSearchHistory = async () => {
     try {
       const history = await dbHelpers.getSearchHistory(5);
@@ -76,12 +110,18 @@ export function SearchBar({
     handleSearch(query);
   };
 
+  const handlePersonClick = async (person: TMDBPersonSummary) => {
+    setShowSuggestions(false);
+    navigate(`/person/${person.id}`);
+    await dbHelpers.trackEvent('person_search_selected', { personId: person.id, name: person.name });
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
     onChange(newValue);
     
     // Show suggestions when typing
-    if (newValue.trim() && searchHistory.length > 0) {
+    if (newValue.trim() && (searchHistory.length > 0 || includePeople)) {
       setShowSuggestions(true);
     } else {
       setShowSuggestions(false);
@@ -105,7 +145,7 @@ export function SearchBar({
 
   const handleFocus = () => {
     setIsFocused(true);
-    if (value.trim() && searchHistory.length > 0) {
+    if (value.trim() && (searchHistory.length > 0 || includePeople)) {
       setShowSuggestions(true);
     }
   };
@@ -124,6 +164,23 @@ export function SearchBar({
 
   return (
     <div className={cn("relative w-full max-w-2xl", className)}>
+      {/* Result Type Switch */}
+      {onResultTypeChange && (
+        <Tabs
+          value={resultType}
+          onValueChange={(value) => onResultTypeChange(value as SearchResultType)}
+          className="mb-3 flex justify-center"
+        >
+          <TabsList>
+            {searchResultTypes.map(({ value, label }) => (
+              <TabsTrigger key={value} value={value}>
+                {label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      )}
+
       {/* Search Input */}
       <div className="relative">
         <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
@@ -159,34 +216,76 @@ export function SearchBar({
       </div>
 
       {/* Search Suggestions */}
-      {showSuggestions && filteredHistory.length > 0 && (
+      {showSuggestions && (filteredHistory.length > 0 || people.length > 0) && (
         <Card className="absolute top-full left-0 right-0 z-50 mt-2 border-border/50 bg-surface/95 backdrop-blur-sm">
           <CardContent className="p-2">
-            <div className="space-y-1">
-              <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
-                <Clock className="h-3 w-3" />
-                Recent searches
+            {people.length > 0 && (
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+                  <User className="h-3 w-3" />
+                  People
+                </div>
+
+                {people.map((person) => (
+                  <button
+                    key={person.id}
+                    className={cn(
+                      "w-full flex items-center gap-3 px-3 py-2 text-left",
+                      "hover:bg-muted/50 rounded-md transition-colors",
+                      "text-sm text-foreground"
+                    )}
+                    onClick={() => handlePersonClick(person)}
+                  >
+                    <div className="h-8 w-8 flex-shrink-0 overflow-hidden rounded-full bg-muted">
+                      {person.profile_path ? (
+                        <img
+                          src={tmdbAPI.getImageUrl(person.profile_path, 'w185')}
+                          alt=""
+                          className="h-full w-full object-cover"
+                          loading="lazy"
+                        />
+                      ) : (
+                        <User className="m-2 h-4 w-4 text-muted-foreground" />
+                      )}
+                    </div>
+                    <span className="flex-1 line-clamp-1">{person.name}</span>
+                    {person.known_for_department && (
+                      <Badge variant="secondary" className="text-xs">
+                        {person.known_for_department}
+                      </Badge>
+                    )}
+                  </button>
+                ))}
               </div>
+            )}
+
+            {filteredHistory.length > 0 && (
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+                  <Clock className="h-3 w-3" />
+                  Recent searches
+                </div>
               
-              {filteredHistory.map((query, index) => (
-                <button
-                  key={index}
-                  className={cn(
-                    "w-full flex items-center gap-3 px-3 py-2 text-left",
-                    "hover:bg-muted/50 rounded-md transition-colors",
-                    "text-sm text-foreground"
-                  )}
-                  onClick={() => handleHistoryClick(query)}
-                >
-                  <Search className="h-3 w-3 text-muted-foreground" />
-                  <span className="flex-1">{query}</span>
-                  <Badge variant="secondary" className="text-xs">
-                    <TrendingUp className="mr-1 h-2 w-2" />
-                    Recent
-                  </Badge>
-                </button>
-              ))}
-            </div>
+                {filteredHistory.map((query, index) => (
+                  <button
+                    key={index}
+                    className={cn(
+                      "w-full flex items-center gap-3 px-3 py-2 text-left",
+                      "hover:bg-muted/50 rounded-md transition-colors",
+                      "text-sm text-foreground"
+                    )}
+                    onClick={() => handleHistoryClick(query)}
+                  >
+                    <Search className="h-3 w-3 text-muted-foreground" />
+                    <span className="flex-1">{query}</span>
+                    <Badge variant="secondary" className="text-xs">
+                      <TrendingUp className="mr-1 h-2 w-2" />
+                      Recent
+                    </Badge>
+                  </button>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { Calendar, Clock, Star, Tv } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TMDBEpisode, TMDBSeasonSummary, tmdbAPI, APIError } from '../api/apiClient';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { cn } from '@/lib/utils';
+
+interface TVSeasonBrowserProps {
+  showId: number;
+  seasons: TMDBSeasonSummary[];
+  className?: string;
+}
+
+// Season 0 holds specials, so start on the first regular season when there is one
+const getInitialSeason = (seasons: TMDBSeasonSummary[]) =>
+  (seasons.find(season => season.season_number > 0) ?? seasons[0])?.season_number ?? null;
+
+export function TVSeasonBrowser({ showId, seasons, className }: TVSeasonBrowserProps) {
+  const [seasonNumber, setSeasonNumber] = useState<number | null>(() => getInitialSeason(seasons));
+  const [episodes, setEpisodes] = useState<TMDBEpisode[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { preferences } = usePreferences();
+
+  useEffect(() => {
+    if (seasonNumber === null) return;
+    const controller = new AbortController();
+    loadSeason(seasonNumber, controller.signal);
+    return () => controller.abort();
+  }, [showId, seasonNumber, preferences.language]);
+
+  const loadSeason = async (season: number, signal: AbortSignal) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await tmdbAPI.getTVSeason(showId, season, signal);
+      if (signal.aborted) return;
+      setEpisodes(response.episodes);
+    } catch (err) {
+      if ((err as APIError).isAborted) return;
+      console.error('Failed to load season:', err);
+      setError('Failed to load episodes for this season.');
+      setEpisodes([]);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  if (seasons.length === 0 || seasonNumber === null) return null;
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold">Episodes</h3>
+        <Select value={String(seasonNumber)} onValueChange={(value) => setSeasonNumber(Number(value))}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {seasons.map((season) => (
+              <SelectItem key={season.id} value={String(season.season_number)}>
+                {season.name} ({season.episode_count})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive py-4">{error}</p>
+      ) : episodes.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">No episodes listed for this season yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {episodes.map((episode) => (
+            <div key={episode.id} className="flex gap-4 rounded-lg border border-border/50 p-3">
+              <div className="w-32 flex-shrink-0 aspect-video overflow-hidden rounded bg-muted">
+                {episode.still_path ? (
+                  <img
+                    src={tmdbAPI.getImageUrl(episode.still_path, 'w300')}
+                    alt=""
+                    className="h-full w-full object-cover"
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="flex h-full w-full items-center justify-center">
+                    <Tv className="h-6 w-6 text-muted-foreground" />
+                  </div>
+                )}
+              </div>
+
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="font-medium leading-tight">
+                  <span className="text-muted-foreground">{episode.episode_number}.</span> {episode.name}
+                </p>
+                <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                  {episode.air_date && (
+                    <span className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      {new Date(episode.air_date).toLocaleDateString()}
+                    </span>
+                  )}
+                  {episode.runtime > 0 && (
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {episode.runtime}m
+                    </span>
+                  )}
+                  {episode.vote_average > 0 && (
+                    <span className="flex items-center gap-1">
+                      <Star className="h-3 w-3 fill-current text-yellow-500" />
+                      {episode.vote_average.toFixed(1)}
+                    </span>
+                  )}
+                </div>
+                {episode.overview && (
+                  <p className="text-sm text-muted-foreground line-clamp-3 leading-relaxed">
+                    {episode.overview}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
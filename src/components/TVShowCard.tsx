@@ -0,0 +1,108 @@
+import React from 'react';
+import { Heart, Star, Calendar, Tv } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { TMDBTVShow, tmdbAPI } from '../api/apiClient';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { cn } from '@/lib/utils';
+
+interface TVShowCardProps {
+  show: TMDBTVShow;
+  onDetailsClick?: (show: TMDBTVShow) => void;
+  className?: string;
+}
+
+export function TVShowCard({ show, onDetailsClick, className }: TVShowCardProps) {
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const isShowFavorite = isFavorite(show.id, 'tv');
+
+  const handleFavoriteClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    toggleFavorite(show);
+  };
+
+  const firstAirYear = show.first_air_date ? new Date(show.first_air_date).getFullYear() : 'TBA';
+  const posterUrl = tmdbAPI.getImageUrl(show.poster_path, 'w500');
+
+  return (
+    <Card
+      className={cn(
+        "group overflow-hidden transition-all duration-300",
+        "hover:scale-105 hover:shadow-card bg-card/80 backdrop-blur-sm",
+        "border-border/50 hover:border-primary/20",
+        onDetailsClick && "cursor-pointer",
+        className
+      )}
+      onClick={() => onDetailsClick?.(show)}
+    >
+      <CardContent className="p-0">
+        {/* Poster */}
+        <div className="relative aspect-[2/3] overflow-hidden">
+          <img
+            src={posterUrl}
+            alt={`${show.name} poster`}
+            className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-110"
+            loading="lazy"
+          />
+
+          {/* Favorite Button Overlay */}
+          <Button
+            size="icon"
+            variant="ghost"
+            className={cn(
+              "absolute top-2 right-2 h-8 w-8 rounded-full",
+              "bg-background/80 backdrop-blur-sm hover:bg-background/90",
+              "opacity-0 group-hover:opacity-100 transition-opacity duration-200",
+              isShowFavorite && "opacity-100 text-destructive"
+            )}
+            onClick={handleFavoriteClick}
+            aria-label={isShowFavorite ? "Remove from favorites" : "Add to favorites"}
+          >
+            <Heart
+              className={cn(
+                "h-4 w-4 transition-all duration-200",
+                isShowFavorite && "fill-current"
+              )}
+            />
+          </Button>
+
+          {/* Media Type Badge */}
+          <Badge className="absolute top-2 left-2 bg-background/90 text-foreground backdrop-blur-sm hover:bg-background/90">
+            <Tv className="mr-1 h-3 w-3" />
+            TV
+          </Badge>
+
+          {/* Rating Badge */}
+          {show.vote_average > 0 && (
+            <Badge
+              variant="secondary"
+              className="absolute bottom-2 left-2 bg-background/90 backdrop-blur-sm"
+            >
+              <Star className="mr-1 h-3 w-3 fill-current text-yellow-500" />
+              {show.vote_average.toFixed(1)}
+            </Badge>
+          )}
+        </div>
+
+        {/* Show Info */}
+        <div className="p-4 space-y-2">
+          <h3 className="font-semibold text-card-foreground line-clamp-1 group-hover:text-primary transition-colors">
+            {show.name}
+          </h3>
+
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Calendar className="mr-1 h-3 w-3" />
+            {firstAirYear}
+          </div>
+
+          {show.overview && (
+            <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed">
+              {show.overview}
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,298 @@
+import React, { useState, useEffect } from 'react';
+import { X, Heart, Star, Calendar, Clock, Globe, Tv } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogClose } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { TMDBTVShow, TMDBTVShowDetails, tmdbAPI, tmdbClient, APIError } from '../api/apiClient';
+import { CachedDataNotice } from './CachedDataNotice';
+import { MovieCredits } from './MovieCredits';
+import { TVSeasonBrowser } from './TVSeasonBrowser';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { useToast } from '../hooks/use-toast';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { cn } from '@/lib/utils';
+
+interface TVShowDetailModalProps {
+  show: TMDBTVShow | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function TVShowDetailModal({ show, isOpen, onClose }: TVShowDetailModalProps) {
+  const [showDetails, setShowDetails] = useState<TMDBTVShowDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  // Bumped by Try Again to load the details afresh
+  const [attempt, setAttempt] = useState(0);
+
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const { toast } = useToast();
+  const { preferences } = usePreferences();
+
+  const isShowFavorite = show ? isFavorite(show.id, 'tv') : false;
+
+  const showId = show?.id;
+  useEffect(() => {
+    if (!showId || !isOpen) return;
+
+    // Drop the request if the modal closes or switches show first
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const loadShowDetails = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setShowDetails(prev => (prev?.id === showId ? prev : null));
+        const details = await tmdbAPI.getTVShowDetails(showId, signal);
+        if (signal.aborted) return;
+        setShowDetails(details);
+        setCachedAt(tmdbClient.getCacheInfo(details)?.cachedAt ?? null);
+      } catch (err) {
+        if ((err as APIError).isAborted) return;
+        console.error('Failed to load show details:', err);
+        setError((err as APIError).message ?? 'Failed to load show details');
+        toast({
+          title: "Error",
+          description: "Failed to load show details. Please try again.",
+          variant: "destructive",
+        });
+      } finally {
+        if (!signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadShowDetails();
+    return () => controller.abort();
+  }, [showId, isOpen, preferences.language, attempt, toast]);
+
+  const handleFavoriteClick = () => {
+    if (show) {
+      toggleFavorite(show);
+    }
+  };
+
+  if (!show) return null;
+
+  const backdropUrl = tmdbAPI.getImageUrl(show.backdrop_path, 'w780');
+  const posterUrl = tmdbAPI.getImageUrl(show.poster_path, 'w500');
+  const firstAirYear = show.first_air_date ? new Date(show.first_air_date).getFullYear() : 'TBA';
+  const lastAirYear = showDetails?.last_air_date ? new Date(showDetails.last_air_date).getFullYear() : null;
+  const airYears = showDetails?.in_production || !lastAirYear || lastAirYear === firstAirYear
+    ? `${firstAirYear}${showDetails?.in_production ? '–' : ''}`
+    : `${firstAirYear}–${lastAirYear}`;
+  const episodeRuntime = showDetails?.episode_run_time?.[0];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] p-0 overflow-hidden bg-surface border-border/50">
+        <DialogClose className="absolute right-4 top-4 z-50 rounded-sm opacity-70 ring-offset-background transition-opacity hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:pointer-events-none data-[state=open]:bg-accent data-[state=open]:text-muted-foreground">
+          <X className="h-4 w-4" />
+          <span className="sr-only">Close</span>
+        </DialogClose>
+
+        <ScrollArea key={show.id} className="max-h-[90vh]">
+          {/* Backdrop Header */}
+          <div className="relative h-64 md:h-80 overflow-hidden">
+            <img
+              src={backdropUrl}
+              alt={`${show.name} backdrop`}
+              className="w-full h-full object-cover"
+            />
+            <div className="absolute inset-0 bg-gradient-to-t from-surface via-surface/50 to-transparent" />
+
+            {/* Header Content */}
+            <div className="absolute bottom-6 left-6 right-6">
+              <div className="flex flex-col md:flex-row gap-6">
+                {/* Poster */}
+                <div className="flex-shrink-0">
+                  <img
+                    src={posterUrl}
+                    alt={`${show.name} poster`}
+                    className="w-32 md:w-40 rounded-lg shadow-lg border border-border/20"
+                  />
+                </div>
+
+                {/* Title and Basic Info */}
+                <div className="flex-1 min-w-0">
+                  <DialogHeader className="text-left space-y-3">
+                    <h1 className="text-2xl md:text-3xl font-bold text-foreground leading-tight">
+                      {show.name}
+                    </h1>
+
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                      <div className="flex items-center gap-1">
+                        <Calendar className="h-4 w-4" />
+                        {airYears}
+                      </div>
+
+                      {showDetails && (
+                        <div className="flex items-center gap-1">
+                          <Tv className="h-4 w-4" />
+                          {showDetails.number_of_seasons} {showDetails.number_of_seasons === 1 ? 'season' : 'seasons'}
+                        </div>
+                      )}
+
+                      {episodeRuntime > 0 && (
+                        <div className="flex items-center gap-1">
+                          <Clock className="h-4 w-4" />
+                          {episodeRuntime}m
+                        </div>
+                      )}
+
+                      {show.vote_average > 0 && (
+                        <div className="flex items-center gap-1">
+                          <Star className="h-4 w-4 fill-current text-yellow-500" />
+                          {show.vote_average.toFixed(1)} / 10
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Genres */}
+                    {showDetails?.genres && (
+                      <div className="flex flex-wrap gap-2">
+                        {showDetails.genres.slice(0, 4).map((genre) => (
+                          <Badge key={genre.id} variant="secondary">
+                            {genre.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </DialogHeader>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-6">
+            {/* Action Buttons */}
+            <div className="flex flex-wrap gap-3">
+              <Button
+                onClick={handleFavoriteClick}
+                variant={isShowFavorite ? "destructive" : "outline"}
+                className="flex items-center gap-2"
+              >
+                <Heart className={cn("h-4 w-4", isShowFavorite && "fill-current")} />
+                {isShowFavorite ? "Remove from Favorites" : "Add to Favorites"}
+              </Button>
+
+              {showDetails?.homepage && (
+                <Button asChild variant="outline">
+                  <a href={showDetails.homepage} target="_blank" rel="noopener noreferrer">
+                    <Globe className="mr-2 h-4 w-4" />
+                    Official Site
+                  </a>
+                </Button>
+              )}
+            </div>
+
+            {/* Offline Indicator */}
+            {cachedAt && !isLoading && (
+              <CachedDataNotice cachedAt={cachedAt} />
+            )}
+
+            {/* Loading State */}
+            {isLoading && (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            )}
+
+            {/* Error State */}
+            {error && !isLoading && (
+              <div className="text-center py-8">
+                <p className="text-destructive mb-4">{error}</p>
+                <Button onClick={() => setAttempt(count => count + 1)} variant="outline">
+                  Try Again
+                </Button>
+              </div>
+            )}
+
+            {/* Show Details */}
+            {showDetails && !isLoading && (
+              <div className="space-y-6">
+                {/* Tagline */}
+                {showDetails.tagline && (
+                  <blockquote className="text-lg italic text-muted-foreground border-l-4 border-primary pl-4">
+                    "{showDetails.tagline}"
+                  </blockquote>
+                )}
+
+                {/* Overview */}
+                <div>
+                  <h3 className="text-lg font-semibold mb-3">Overview</h3>
+                  <p className="text-muted-foreground leading-relaxed">
+                    {showDetails.overview || show.overview || "No overview available."}
+                  </p>
+                </div>
+
+                {/* Seasons and Episodes */}
+                <TVSeasonBrowser key={show.id} showId={show.id} seasons={showDetails.seasons} />
+
+                {/* Cast and Crew */}
+                {showDetails.credits && (
+                  <MovieCredits credits={showDetails.credits} />
+                )}
+
+                <Separator />
+
+                {/* Additional Details */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold">Details</h3>
+
+                    <div className="space-y-2 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Status:</span>
+                        <span>{showDetails.status}</span>
+                      </div>
+
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Episodes:</span>
+                        <span>{showDetails.number_of_episodes}</span>
+                      </div>
+
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Original Language:</span>
+                        <span className="uppercase">{showDetails.original_language}</span>
+                      </div>
+
+                      {showDetails.created_by.length > 0 && (
+                        <div className="flex justify-between gap-4">
+                          <span className="text-muted-foreground">Created By:</span>
+                          <span className="text-right">
+                            {showDetails.created_by.map(creator => creator.name).join(', ')}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Networks */}
+                  {showDetails.networks.length > 0 && (
+                    <div className="space-y-4">
+                      <h3 className="text-lg font-semibold">Networks</h3>
+                      <div className="space-y-2">
+                        {showDetails.networks.slice(0, 3).map((network) => (
+                          <div key={network.id} className="text-sm text-muted-foreground">
+                            {network.name}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
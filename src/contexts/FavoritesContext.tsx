@@ -0,0 +1,202 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { dbHelpers, Favorite, FavoriteMediaType, getFavoriteKey } from '../services/idb';
+import { syncChannel } from '../services/syncChannel';
+import { tmdbProvider } from '../api/providers/tmdbProvider';
+import { MediaItem, getMediaTitle, getMediaType, isTVShow } from '@/lib/media';
+import { useMovieProvider } from '../hooks/useMovieProvider';
+import { useToast } from '../hooks/use-toast';
+
+interface FavoritesContextType {
+  // Every saved favorite, whichever provider it came from
+  favorites: Favorite[];
+  // Favorites from the active provider, the ones its pages can open
+  activeFavorites: Favorite[];
+  isLoading: boolean;
+  addFavorite: (item: MediaItem) => Promise<void>;
+  removeFavorite: (id: number, mediaType?: FavoriteMediaType) => Promise<void>;
+  // Clears every favorite, or only those from the given provider
+  clearFavorites: (source?: string) => Promise<void>;
+  importFavorites: (imported: Favorite[], replace: boolean) => Promise<void>;
+  isFavorite: (id: number, mediaType?: FavoriteMediaType) => boolean;
+  toggleFavorite: (item: MediaItem) => Promise<void>;
+  refreshFavorites: () => Promise<void>;
+}
+
+const toFavorite = (item: MediaItem, source: string): Favorite => {
+  const common = {
+    source,
+    id: item.id,
+    overview: item.overview,
+    poster_path: item.poster_path || '',
+    vote_average: item.vote_average,
+    genre_ids: item.genre_ids,
+    savedAt: Date.now(),
+  };
+
+  return isTVShow(item)
+    ? { ...common, media_type: 'tv', name: item.name, first_air_date: item.first_air_date }
+    : { ...common, media_type: 'movie', title: item.title, release_date: item.release_date };
+};
+
+const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+export function FavoritesProvider({ children }: { children: ReactNode }) {
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+  const provider = useMovieProvider();
+
+  // TV shows only ever come from TMDB; movies from the active provider
+  const getSource = (mediaType: FavoriteMediaType) =>
+    mediaType === 'tv' ? tmdbProvider.id : provider.id;
+
+  const activeFavorites = useMemo(
+    () => favorites.filter(fav => fav.source === provider.id),
+    [favorites, provider.id]
+  );
+
+  // Load favorites from IndexedDB on mount
+  useEffect(() => {
+    loadFavorites();
+  }, []);
+
+  // Reload when another tab changes favorites
+  useEffect(() => {
+    return syncChannel.subscribe((message) => {
+      if (message.type === 'favorites-changed') {
+        dbHelpers.getFavorites()
+          .then(setFavorites)
+          .catch(error => console.error('Failed to sync favorites:', error));
+      }
+    });
+  }, []);
+
+  const loadFavorites = async () => {
+    try {
+      setIsLoading(true);
+      const favs = await dbHelpers.getFavorites();
+      setFavorites(favs);
+    } catch (error) {
+      console.error('Failed to load favorites:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load favorites from storage",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addFavorite = async (item: MediaItem) => {
+    try {
+      const favorite = toFavorite(item, getSource(getMediaType(item)));
+      const title = getMediaTitle(item);
+
+      await dbHelpers.addFavorite(favorite);
+      setFavorites(prev => [...prev, favorite]);
+      syncChannel.post({ type: 'favorites-changed' });
+      
+      // Track analytics
+      await dbHelpers.trackEvent('favorite_added', { mediaType: favorite.media_type, id: item.id, title });
+      
+      toast({
+        title: "Added to Favorites",
+        description: `${title} has been added to your favorites`,
+      });
+    } catch (error) {
+      console.error('Failed to add favorite:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add to favorites",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeFavorite = async (id: number, mediaType: FavoriteMediaType = 'movie') => {
+    try {
+      const source = getSource(mediaType);
+      const key = getFavoriteKey({ source, media_type: mediaType, id });
+      const removed = favorites.find(fav => getFavoriteKey(fav) === key);
+      const title = removed ? getMediaTitle(removed) : undefined;
+
+      await dbHelpers.removeFavorite(source, mediaType, id);
+      setFavorites(prev => prev.filter(fav => getFavoriteKey(fav) !== key));
+      syncChannel.post({ type: 'favorites-changed' });
+      
+      // Track analytics
+      await dbHelpers.trackEvent('favorite_removed', { mediaType, id, title });
+      
+      toast({
+        title: "Removed from Favorites",
+        description: `${title} has been removed from your favorites`,
+      });
+    } catch (error) {
+      console.error('Failed to remove favorite:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove from favorites",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const clearFavorites = async (source?: string) => {
+    if (source) {
+      await dbHelpers.removeFavoritesFromSource(source);
+      setFavorites(prev => prev.filter(fav => fav.source !== source));
+    } else {
+      await dbHelpers.clearStore('favorites');
+      setFavorites([]);
+    }
+    syncChannel.post({ type: 'favorites-changed' });
+  };
+
+  const importFavorites = async (imported: Favorite[], replace: boolean) => {
+    await dbHelpers.importFavorites(imported, replace);
+    setFavorites(await dbHelpers.getFavorites());
+    syncChannel.post({ type: 'favorites-changed' });
+  };
+
+  const isFavorite = (id: number, mediaType: FavoriteMediaType = 'movie'): boolean => {
+    const source = getSource(mediaType);
+    return favorites.some(fav => fav.id === id && fav.media_type === mediaType && fav.source === source);
+  };
+
+  const toggleFavorite = async (item: MediaItem) => {
+    const mediaType = getMediaType(item);
+    if (isFavorite(item.id, mediaType)) {
+      await removeFavorite(item.id, mediaType);
+    } else {
+      await addFavorite(item);
+    }
+  };
+
+  const value: FavoritesContextType = {
+    favorites,
+    activeFavorites,
+    isLoading,
+    addFavorite,
+    removeFavorite,
+    clearFavorites,
+    importFavorites,
+    isFavorite,
+    toggleFavorite,
+    refreshFavorites: loadFavorites,
+  };
+
+  return (
+    <FavoritesContext.Provider value={value}>
+      {children}
+    </FavoritesContext.Provider>
+  );
+}
+
+export function useFavorites() {
+  const context = useContext(FavoritesContext);
+  if (context === undefined) {
+    throw new Error('useFavorites must be used within a FavoritesProvider');
+  }
+  return context;
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { Genre } from '../api/providers/types';
+import { useMovieProvider } from '../hooks/useMovieProvider';
+import { usePreferences } from './PreferencesContext';
+
+interface GenresContextType {
+  genres: Genre[];
+  isLoading: boolean;
+  getGenreName: (genreId: number) => string | undefined;
+  getGenreNames: (genreIds: number[]) => string[];
+}
+
+const GenresContext = createContext<GenresContextType | undefined>(undefined);
+
+export function GenresProvider({ children }: { children: ReactNode }) {
+  const [genres, setGenres] = useState<Genre[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { preferences } = usePreferences();
+  const provider = useMovieProvider();
+
+  // Load the provider's genres for the active language
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    provider.getGenres(preferences.language)
+      .then((loaded) => {
+        if (!cancelled) setGenres(loaded);
+      })
+      .catch((error) => {
+        // Genre names are decoration; cards and filters work without them
+        console.error('Failed to load genres:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, preferences.language]);
+
+  const namesById = useMemo(
+    () => new Map(genres.map(genre => [genre.id, genre.name])),
+    [genres]
+  );
+
+  const getGenreName = (genreId: number) => namesById.get(genreId);
+
+  // Unknown ids are skipped rather than shown as numbers
+  const getGenreNames = (genreIds: number[]) => {
+    return genreIds
+      .map(id => namesById.get(id))
+      .filter((name): name is string => !!name);
+  };
+
+  const value: GenresContextType = {
+    genres,
+    isLoading,
+    getGenreName,
+    getGenreNames,
+  };
+
+  return (
+    <GenresContext.Provider value={value}>
+      {children}
+    </GenresContext.Provider>
+  );
+}
+
+export function useGenres() {
+  const context = useContext(GenresContext);
+  if (context === undefined) {
+    throw new Error('useGenres must be used within a GenresProvider');
+  }
+  return context;
+}
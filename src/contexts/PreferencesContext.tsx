@@ -1,26 +1,51 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { dbHelpers } from '../services/idb';
+import { syncChannel } from '../services/syncChannel';
+import { tmdbClient } from '../api/apiClient';
+import { cacheManager, DEFAULT_CACHE_BUDGET_MB } from '../services/cacheManager';
+import { DEFAULT_CATALOGUE_URL, MovieProviderId } from '../api/providers/registry';
 
-interface Preferences {
+export interface Preferences {
   theme: 'light' | 'dark';
   pageSize: number;
+  paginationMode: 'infinite' | 'pages';
   language: string;
   offlineMode: boolean;
+  cacheBudgetMB: number;
+  movieProvider: MovieProviderId;
+  // Where the local catalogue provider loads its movies from
+  catalogueUrl: string;
 }
 
 interface PreferencesContextType {
   preferences: Preferences;
   updatePreferences: (updates: Partial<Preferences>) => Promise<void>;
+  resetPreferences: () => Promise<void>;
   isLoading: boolean;
 }
 
 const defaultPreferences: Preferences = {
   theme: 'dark',
   pageSize: 20,
+  paginationMode: 'infinite',
   language: 'en-US',
   offlineMode: false,
+  cacheBudgetMB: DEFAULT_CACHE_BUDGET_MB,
+  movieProvider: 'tmdb',
+  catalogueUrl: DEFAULT_CATALOGUE_URL,
 };
 
+// Keep the API client and cache in sync with the active preferences. This runs
+// before the state update so that effects reacting to the new preferences
+// already fetch in the right locale and from the right source.
+const applyToServices = ({ language, offlineMode, cacheBudgetMB }: Preferences) => {
+  tmdbClient.setLanguage(language);
+  tmdbClient.setOfflineMode(offlineMode);
+  cacheManager.setBudget(cacheBudgetMB);
+};
+
+applyToServices(defaultPreferences);
+
 const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
 
 export function PreferencesProvider({ children }: { children: ReactNode }) {
@@ -31,6 +56,18 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
     loadPreferences();
   }, []);
 
+  // Apply changes made in other tabs. They are already saved, so only state
+  // and services need updating here.
+  useEffect(() => {
+    return syncChannel.subscribe((message) => {
+      if (message.type === 'preferences-changed') {
+        const synced = { ...defaultPreferences, ...message.preferences } as Preferences;
+        applyToServices(synced);
+        setPreferences(synced);
+      }
+    });
+  }, []);
+
   // Apply theme to document
   useEffect(() => {
     const root = document.documentElement;
@@ -52,7 +89,9 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
       const stored = await dbHelpers.getPreference('user-preferences');
       
       if (stored) {
-        setPreferences({ ...defaultPreferences, ...stored });
+        const loaded = { ...defaultPreferences, ...stored };
+        applyToServices(loaded);
+        setPreferences(loaded);
       } else {
         // Fall back to localStorage for theme
         const storedTheme = localStorage.getItem('theme') as 'light' | 'dark' | null;
@@ -78,10 +117,12 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
       const newPreferences = { ...preferences, ...updates };
       
       // Update state immediately for responsive UI
+      applyToServices(newPreferences);
       setPreferences(newPreferences);
       
       // Save to IndexedDB
       await dbHelpers.setPreference('user-preferences', newPreferences);
+      syncChannel.post({ type: 'preferences-changed', preferences: { ...newPreferences } });
       
       // Track analytics
       await dbHelpers.trackEvent('preferences_updated', { 
@@ -92,13 +133,24 @@ export function PreferencesProvider({ children }: { children: ReactNode }) {
     } catch (error) {
       console.error('Failed to save preferences:', error);
       // Revert state on error
+      applyToServices(preferences);
       setPreferences(preferences);
     }
   };
 
+  // Restores defaults and forgets anything stored, in this tab and others
+  const resetPreferences = async () => {
+    applyToServices(defaultPreferences);
+    setPreferences(defaultPreferences);
+    localStorage.removeItem('theme');
+    await dbHelpers.clearStore('preferences');
+    syncChannel.post({ type: 'preferences-changed', preferences: { ...defaultPreferences } });
+  };
+
   const value: PreferencesContextType = {
     preferences,
     updatePreferences,
+    resetPreferences,
     isLoading,
   };
 
@@ -0,0 +1,36 @@
+import { useCallback } from 'react';
+import { useLocation, useNavigate, Location } from 'react-router-dom';
+import { Movie } from '../api/providers/types';
+
+/**
+ * History state carried by /movie/:id entries. When backgroundLocation is
+ * set the movie was opened from a list and is shown as a modal over it;
+ * a cold visit has no state and loads the movie by id.
+ */
+export interface MovieRouteState {
+  backgroundLocation?: Location;
+  movie?: Movie;
+  // Number of /movie entries pushed since leaving the background page
+  depth?: number;
+  // Title of the movie one entry back, for the modal's back button
+  previousTitle?: string;
+}
+
+export const getMoviePath = (movieId: number) => `/movie/${movieId}`;
+
+/**
+ * Opens movies through the /movie/:id route so they can be shared and closed
+ * with the browser's back button
+ * @returns openMovie - shows the movie as a modal over the current page
+ */
+export function useMovieNavigation() {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const openMovie = useCallback((movie: Movie) => {
+    const state: MovieRouteState = { backgroundLocation: location, movie, depth: 1 };
+    navigate(getMoviePath(movie.id), { state });
+  }, [location, navigate]);
+
+  return { openMovie };
+}
@@ -0,0 +1,79 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { tmdbClient } from '../api/apiClient';
+import { queryKeys } from '../api/queries';
+import { Movie } from '../api/providers/types';
+import { useMovieProvider } from './useMovieProvider';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+// Long enough that sweeping the pointer across a grid prefetches nothing
+const PREFETCH_DELAY_MS = 200;
+
+// Image URLs already requested, so each is only preloaded once per visit
+const preloadedImages = new Set<string>();
+
+const preloadImage = (url: string) => {
+  if (preloadedImages.has(url)) return;
+  preloadedImages.add(url);
+  new Image().src = url;
+};
+
+// Prefetching is a nicety, so it stops while the rate limit is nearly used up
+// and leaves the remaining requests for what the user actually opens
+const shouldBackOff = () => {
+  if (tmdbClient.isOffline()) return true;
+  const rateLimit = tmdbClient.getRateLimitInfo();
+  return !!rateLimit?.isNearLimit && Date.now() < rateLimit.resetTime;
+};
+
+/**
+ * Warms the detail modal for a movie after a short hover or keyboard focus:
+ * fetches its details into the query cache at prefetch priority and preloads
+ * the poster and backdrop at the sizes the modal shows. Spread the returned
+ * handlers onto the element that should trigger it.
+ */
+export function useMoviePrefetch(movie: Movie) {
+  const queryClient = useQueryClient();
+  const provider = useMovieProvider();
+  const { preferences } = usePreferences();
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancel = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const schedule = () => {
+    cancel();
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      if (shouldBackOff()) return;
+
+      // Fetched outside React Query so that opening the movie while this is
+      // still queued joins the request and moves it ahead as a user request
+      const queryKey = queryKeys.movieDetails(provider.id, preferences.language, movie.id);
+      if (!queryClient.getQueryData(queryKey)) {
+        provider.getMovieDetails(movie.id, undefined, 'prefetch')
+          .then(details => {
+            if (!queryClient.getQueryData(queryKey)) {
+              queryClient.setQueryData(queryKey, details);
+            }
+          })
+          .catch(error => console.warn(`Failed to prefetch movie ${movie.id}:`, error));
+      }
+      if (movie.poster_path) preloadImage(provider.getImageUrl(movie.poster_path, 'w500'));
+      if (movie.backdrop_path) preloadImage(provider.getImageUrl(movie.backdrop_path, 'w780'));
+    }, PREFETCH_DELAY_MS);
+  };
+
+  useEffect(() => cancel, []);
+
+  return {
+    onMouseEnter: schedule,
+    onMouseLeave: cancel,
+    onFocus: schedule,
+    onBlur: cancel,
+  };
+}
@@ -0,0 +1,10 @@
+import { getMovieProvider } from '../api/providers/registry';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+/**
+ * The movie metadata provider chosen in Settings
+ */
+export function useMovieProvider() {
+  const { preferences } = usePreferences();
+  return getMovieProvider(preferences.movieProvider, preferences.catalogueUrl);
+}
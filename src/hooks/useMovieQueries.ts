@@ -0,0 +1,69 @@
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { SearchResultType } from '../api/search';
+import {
+  ListItem,
+  PageFetcher,
+  fetchPopularTVShows,
+  listPagesQuery,
+  movieDetailsQuery,
+  searchFetcher,
+} from '../api/queries';
+import { usePaginatedList } from './usePaginatedList';
+import { useMovieProvider } from './useMovieProvider';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+const getListItemKey = (item: ListItem) =>
+  'media_type' in item ? `${item.media_type}-${item.id}` : item.id;
+
+// Popular movies from the active provider; pass enabled false to leave it idle
+export const usePopularMovies = (enabled = true) => {
+  const provider = useMovieProvider();
+  return usePaginatedList<ListItem>({
+    listKey: enabled ? 'popular-movie' : null,
+    source: provider.id,
+    fetchPage: (page, signal) => provider.getMovieList('popular', page, signal),
+  });
+};
+
+// Always from TMDB, the only provider with TV shows
+export const usePopularTVShows = (enabled = true) =>
+  usePaginatedList<ListItem>({
+    listKey: enabled ? 'popular-tv' : null,
+    fetchPage: fetchPopularTVShows,
+  });
+
+/**
+ * Search results as a paginated list, idle while the query is blank.
+ * Providers without multi search only search movies, whatever the type.
+ */
+export const useMovieSearch = (query: string, type: SearchResultType) => {
+  const provider = useMovieProvider();
+  const trimmed = query.trim();
+  const { multiSearch } = provider.features;
+
+  return usePaginatedList<ListItem>({
+    listKey: trimmed ? `search-${multiSearch ? type : 'movie'}-${trimmed}` : null,
+    source: provider.id,
+    fetchPage: multiSearch
+      ? searchFetcher(type, trimmed)
+      : (page, signal) => provider.searchMovies(trimmed, page, signal),
+    getItemKey: getListItemKey,
+  });
+};
+
+// A list loaded a page at a time as it is scrolled, for rails
+export const useInfiniteMovieList = <T,>(listKey: string, fetchPage: PageFetcher<T>) => {
+  const provider = useMovieProvider();
+  const { preferences } = usePreferences();
+  return useInfiniteQuery(listPagesQuery(provider.id, preferences.language, listKey, fetchPage));
+};
+
+// Full details for a movie, idle while movieId is null
+export const useMovieDetails = (movieId: number | null) => {
+  const provider = useMovieProvider();
+  const { preferences } = usePreferences();
+  return useQuery({
+    ...movieDetailsQuery(provider, preferences.language, movieId),
+    enabled: movieId !== null,
+  });
+};
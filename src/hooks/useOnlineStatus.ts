@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+/**
+ * Tracks whether the app should behave as offline
+ * @returns isOnline - the browser's connectivity, and isOffline - true when
+ * the browser is offline or the user has enabled offline mode
+ */
+export function useOnlineStatus() {
+  const { preferences } = usePreferences();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return {
+    isOnline,
+    isOffline: !isOnline || preferences.offlineMode,
+  };
+}
@@ -0,0 +1,224 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useQueries, useQueryClient } from '@tanstack/react-query';
+import { tmdbClient, APIError } from '../api/apiClient';
+import {
+  PageFetcher,
+  PagedResponse,
+  TMDB_MAX_PAGE,
+  TMDB_PAGE_SIZE,
+  TMDB_SOURCE,
+  listPageQuery,
+  queryKeys,
+} from '../api/queries';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+export interface PaginatedListOptions<T> {
+  // Identifies the list; a new key starts over from the first page. Pass
+  // null to leave the list idle.
+  listKey: string | null;
+  fetchPage: PageFetcher<T>;
+  // The provider the list comes from, TMDB unless given
+  source?: string;
+  // Used to drop repeats, since TMDB pages can overlap as rankings shift
+  getItemKey?: (item: T) => string | number;
+}
+
+interface ListPosition {
+  page: number;
+  visibleCount: number;
+}
+
+interface ListSnapshot {
+  position: ListPosition;
+  // Window scroll relative to the top of the list, null if it was not on screen
+  scrollOffset: number | null;
+}
+
+// Where lists were left for another page, keyed by history entry so going
+// back restores them. The pages themselves stay in the query cache.
+const snapshots = new Map<string, ListSnapshot>();
+const MAX_SNAPSHOTS = 20;
+
+const reachableResults = (response: PagedResponse<unknown>) =>
+  Math.min(response.total_results, Math.min(response.total_pages, TMDB_MAX_PAGE) * TMDB_PAGE_SIZE);
+
+const defaultItemKey = (item: unknown) => (item as { id: number }).id;
+
+/**
+ * Presents a TMDB list in pages of the user's preferred size, either as
+ * numbered pages or as a growing list for infinite scroll, depending on
+ * preferences.paginationMode. Each TMDB page is its own query, fetched only
+ * once the visible range reaches it.
+ * Attach listRef to the element wrapping the items so the scroll position
+ * can be restored when navigating back to the page.
+ */
+export function usePaginatedList<T>({
+  listKey,
+  fetchPage,
+  source = TMDB_SOURCE,
+  getItemKey = defaultItemKey,
+}: PaginatedListOptions<T>) {
+  const location = useLocation();
+  const queryClient = useQueryClient();
+  const { preferences } = usePreferences();
+  const { pageSize, paginationMode, language } = preferences;
+  const snapshotKey = `${location.key}:${source}:${listKey}`;
+
+  const [restored] = useState(() => snapshots.get(snapshotKey));
+  const [position, setPosition] = useState<ListPosition>(
+    () => restored?.position ?? { page: 1, visibleCount: pageSize }
+  );
+  const listRef = useRef<HTMLDivElement>(null);
+  const isFirstRender = useRef(true);
+
+  // The first render may be restoring a snapshot
+  useEffect(() => {
+    if (isFirstRender.current) return;
+    setPosition({ page: 1, visibleCount: pageSize });
+  }, [listKey, pageSize, paginationMode]);
+
+  useEffect(() => {
+    isFirstRender.current = false;
+  }, []);
+
+  // Any loaded page of the list knows how long it is. Until one does, assume
+  // the requested range exists.
+  const loadedPage = listKey
+    ? queryClient
+        .getQueriesData<PagedResponse<T>>({ queryKey: queryKeys.list(source, language, listKey) })
+        .find(([queryKey, data]) => typeof queryKey[queryKey.length - 1] === 'number' && data)?.[1]
+    : undefined;
+  const knownTotal = loadedPage ? reachableResults(loadedPage) : null;
+
+  const start = paginationMode === 'pages' ? (position.page - 1) * pageSize : 0;
+  const requestedEnd = paginationMode === 'pages' ? position.page * pageSize : position.visibleCount;
+  const end = knownTotal === null ? requestedEnd : Math.min(requestedEnd, knownTotal);
+
+  // The TMDB pages the visible range covers
+  const pageNumbers: number[] = [];
+  if (listKey && start < end) {
+    const lastPage = Math.ceil(end / TMDB_PAGE_SIZE);
+    for (let page = Math.floor(start / TMDB_PAGE_SIZE) + 1; page <= lastPage; page++) {
+      pageNumbers.push(page);
+    }
+  }
+
+  const pageQueries = useQueries({
+    queries: pageNumbers.map(page => listPageQuery(source, language, listKey, page, fetchPage)),
+  });
+
+  // Items in the visible range, stopping at the first page still loading
+  const items: T[] = [];
+  const seen = new Set<string | number>();
+  for (let index = start; index < end; index++) {
+    const query = pageQueries[Math.floor(index / TMDB_PAGE_SIZE) + 1 - pageNumbers[0]];
+    const item = query?.data?.results[index % TMDB_PAGE_SIZE];
+    if (item === undefined) break;
+    const key = getItemKey(item);
+    if (!seen.has(key)) {
+      seen.add(key);
+      items.push(item);
+    }
+  }
+
+  const failedQuery = pageQueries.find(query => query.error);
+  const apiError = failedQuery?.error as APIError | undefined;
+  const error = apiError
+    ? apiError.isNetworkError
+      ? 'Network error. Please check your connection and try again.'
+      : apiError.message || 'Failed to load results. Please try again.'
+    : null;
+
+  useEffect(() => {
+    if (apiError) {
+      console.error(`Failed to load ${listKey}:`, apiError);
+    }
+  }, [apiError, listKey]);
+
+  // Report the oldest cached copy on screen, if any
+  const cachedTimes = pageQueries
+    .map(query => (query.data ? tmdbClient.getCacheInfo(query.data)?.cachedAt ?? null : null))
+    .filter((value): value is number => value !== null);
+  const cachedAt = cachedTimes.length > 0 ? Math.min(...cachedTimes) : null;
+
+  // Remember where this list was so coming back to the same history entry
+  // picks up from there
+  const positionRef = useRef(position);
+  positionRef.current = position;
+
+  useEffect(() => {
+    if (!listKey) return;
+    let scrollOffset: number | null = null;
+
+    const handleScroll = () => {
+      scrollOffset = listRef.current ? -listRef.current.getBoundingClientRect().top : null;
+    };
+    handleScroll();
+    window.addEventListener('scroll', handleScroll, { passive: true });
+
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      snapshots.delete(snapshotKey);
+      snapshots.set(snapshotKey, { position: positionRef.current, scrollOffset });
+      if (snapshots.size > MAX_SNAPSHOTS) {
+        snapshots.delete(snapshots.keys().next().value);
+      }
+    };
+  }, [listKey, snapshotKey]);
+
+  // Scroll back to the same spot in the list once the restored items are on
+  // screen. Content above that loads later is handled by scroll anchoring.
+  useEffect(() => {
+    if (restored?.scrollOffset != null && listRef.current) {
+      const listTop = listRef.current.getBoundingClientRect().top + window.scrollY;
+      window.scrollTo(0, Math.max(0, listTop + restored.scrollOffset));
+    }
+  }, [restored]);
+
+  const totalResults = knownTotal ?? 0;
+  const pageCount = Math.ceil(totalResults / pageSize);
+  const hasMore = knownTotal === null || position.visibleCount < knownTotal;
+
+  const goToPage = useCallback((page: number) => {
+    setPosition(prev => ({ ...prev, page }));
+    if (listRef.current) {
+      const listTop = listRef.current.getBoundingClientRect().top + window.scrollY;
+      // Leave room for the sticky header
+      window.scrollTo({ top: Math.max(0, listTop - 96), behavior: 'smooth' });
+    }
+  }, []);
+
+  const loadMore = useCallback(() => {
+    setPosition(prev => ({ ...prev, visibleCount: prev.visibleCount + pageSize }));
+  }, [pageSize]);
+
+  // Try the pages that failed again, keeping what is already loaded
+  const retry = () => {
+    pageQueries.filter(query => query.error).forEach(query => query.refetch());
+  };
+
+  // Refetch the whole list, e.g. to swap cached results for live ones
+  const reload = () => {
+    if (listKey) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.list(source, language, listKey) });
+    }
+  };
+
+  return {
+    items,
+    listRef,
+    mode: paginationMode,
+    page: position.page,
+    pageCount,
+    totalResults,
+    hasMore,
+    isLoading: pageQueries.some(query => query.isLoading),
+    error,
+    cachedAt,
+    goToPage,
+    loadMore,
+    retry,
+    reload,
+  };
+}
@@ -0,0 +1,27 @@
+import { useState, useEffect, useSyncExternalStore } from 'react';
+import { tmdbClient } from '../api/apiClient';
+
+const subscribe = (listener: () => void) => tmdbClient.subscribeToRateLimitStatus(listener);
+const getSnapshot = () => tmdbClient.getRateLimitStatus();
+
+/**
+ * Tracks whether TMDB requests are on hold after hitting the rate limit
+ * @returns isRateLimited, and retryInSeconds - a countdown to when requests
+ * resume, updated every second
+ */
+export function useRateLimitStatus() {
+  const { limitedUntil } = useSyncExternalStore(subscribe, getSnapshot);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (limitedUntil === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [limitedUntil]);
+
+  return {
+    isRateLimited: limitedUntil !== null,
+    retryInSeconds: limitedUntil === null ? 0 : Math.max(1, Math.ceil((limitedUntil - now) / 1000)),
+  };
+}
@@ -0,0 +1,22 @@
+import { TMDBTVShow } from '../api/apiClient';
+import type { Movie } from '../api/providers/types';
+import type { Favorite, FavoriteMediaType } from '../services/idb';
+
+export type MediaItem = Movie | TMDBTVShow;
+
+// Movies have a title and shows a name
+export function isTVShow(item: MediaItem): item is TMDBTVShow {
+  return !('title' in item);
+}
+
+export function getMediaType(item: MediaItem): FavoriteMediaType {
+  return isTVShow(item) ? 'tv' : 'movie';
+}
+
+export function getMediaTitle(item: MediaItem | Favorite): string {
+  return 'title' in item ? item.title : item.name;
+}
+
+export function getMediaReleaseDate(item: MediaItem | Favorite): string {
+  return 'release_date' in item ? item.release_date : item.first_air_date;
+}
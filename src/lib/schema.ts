@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+// A plain interface, since success can't narrow a union without strictNullChecks
+export interface ParseResult<T> {
+  success: boolean;
+  // Set on success
+  data?: T;
+  // Set on failure
+  error?: z.ZodError;
+}
+
+/**
+ * Validates a value against a schema. Without strictNullChecks zod infers
+ * every field as optional, so callers that spell the parsed shape out as an
+ * interface still need to cast the data to it.
+ */
+export const safeParseAs = <S extends z.ZodTypeAny>(schema: S, value: unknown): ParseResult<z.infer<S>> => {
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: result.error };
+};
@@ -0,0 +1,51 @@
+import { TMDBVideo, TMDBVideoType } from '../api/apiClient';
+
+const PLAYABLE_SITES = ['YouTube', 'Vimeo'];
+
+const TYPE_RANK: Record<TMDBVideoType, number> = {
+  Trailer: 0,
+  Teaser: 1,
+  Clip: 2,
+  Featurette: 3,
+  'Behind the Scenes': 4,
+  Bloopers: 5,
+};
+
+/**
+ * Orders playable videos from most to least relevant: the preferred language
+ * first, then trailers before other types, official before fan uploads, and
+ * newest first.
+ * @param videos - Videos as returned by TMDB
+ * @param language - Preferred language, e.g. "fr-FR" or "fr"
+ */
+export function rankVideos(videos: TMDBVideo[], language: string): TMDBVideo[] {
+  const preferred = language.split('-')[0];
+  const score = (video: TMDBVideo) => [
+    video.iso_639_1 === preferred ? 0 : 1,
+    TYPE_RANK[video.type] ?? 6,
+    video.official ? 0 : 1,
+    -new Date(video.published_at).getTime() || 0,
+  ];
+
+  return videos
+    .filter(video => PLAYABLE_SITES.includes(video.site))
+    .sort((a, b) => {
+      const scoreA = score(a);
+      const scoreB = score(b);
+      const index = scoreA.findIndex((value, i) => value !== scoreB[i]);
+      return index === -1 ? 0 : scoreA[index] - scoreB[index];
+    });
+}
+
+export function getVideoEmbedUrl(video: TMDBVideo, autoplay = false): string {
+  const query = autoplay ? '?autoplay=1' : '';
+  return video.site === 'Vimeo'
+    ? `https://player.vimeo.com/video/${video.key}${query}`
+    : `https://www.youtube-nocookie.com/embed/${video.key}${query}`;
+}
+
+export function getVideoThumbnailUrl(video: TMDBVideo): string | null {
+  return video.site === 'YouTube'
+    ? `https://img.youtube.com/vi/${video.key}/hqdefault.jpg`
+    : null;
+}
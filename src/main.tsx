@@ -1,5 +1,10 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { cacheManager } from "./services/cacheManager";
+
+cacheManager.sweepExpired().catch((error) => {
+  console.error("Failed to sweep expired cache entries:", error);
+});
 
 createRoot(document.getElementById("root")!).render(<App />);
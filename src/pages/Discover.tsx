@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { AlertCircle, Compass } from 'lucide-react';
+import { MovieGrid } from '../components/MovieGrid';
+import { CachedDataNotice } from '../components/CachedDataNotice';
+import { DiscoverFiltersPanel } from '../components/DiscoverFiltersPanel';
+import { ListPagination } from '../components/ListPagination';
+import { InfiniteScrollTrigger } from '../components/InfiniteScrollTrigger';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { TMDBMovie, tmdbAPI } from '../api/apiClient';
+import { DiscoverFilters, filtersFromSearchParams, filtersToSearchParams } from '../api/discover';
+import { dbHelpers } from '../services/idb';
+import { useToast } from '../hooks/use-toast';
+import { useMovieNavigation } from '../hooks/useMovieNavigation';
+import { usePaginatedList } from '../hooks/usePaginatedList';
+import { useGenres } from '../contexts/GenresContext';
+
+export default function Discover() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const { toast } = useToast();
+  const { openMovie } = useMovieNavigation();
+  const { genres } = useGenres();
+
+  // The URL is the source of truth, so shared links and back/forward restore filters
+  const queryString = searchParams.toString();
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
+
+  const results = usePaginatedList<TMDBMovie>({
+    listKey: `discover-${queryString}`,
+    fetchPage: async (page, signal) => {
+      const response = await tmdbAPI.discoverMovies(filters, page, signal);
+
+      // Tracked without waiting, so a slow or failed write never holds up the results
+      void dbHelpers.trackEvent('discover_completed', {
+        filters: queryString,
+        page,
+        resultsCount: response.results.length,
+        totalResults: response.total_results,
+      }).catch(() => {});
+      return response;
+    },
+  });
+
+  useEffect(() => {
+    if (results.error) {
+      toast({
+        title: "Discover Failed",
+        description: results.error,
+        variant: "destructive",
+      });
+    }
+  }, [results.error, toast]);
+
+  const handleFiltersChange = (nextFilters: DiscoverFilters) => {
+    setSearchParams(filtersToSearchParams(nextFilters), { replace: true });
+  };
+
+  const handleMovieClick = async (movie: TMDBMovie) => {
+    openMovie(movie);
+
+    await dbHelpers.trackEvent('movie_viewed', {
+      movieId: movie.id,
+      title: movie.title,
+      from: 'discover',
+    });
+  };
+
+  const showInitialLoading = results.isLoading && results.items.length === 0;
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <Compass className="h-8 w-8 text-primary" />
+        <div>
+          <h1 className="text-3xl font-bold">Discover</h1>
+          <p className="text-muted-foreground">
+            Narrow down movies by genre, year, rating, runtime and more
+          </p>
+        </div>
+      </div>
+
+      <DiscoverFiltersPanel
+        filters={filters}
+        genres={genres}
+        onChange={handleFiltersChange}
+      />
+
+      {/* Error Alert */}
+      {results.error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between">
+            <span>{results.error}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={results.retry}
+              className="ml-4"
+            >
+              Try Again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Offline Indicator */}
+      {results.cachedAt && !showInitialLoading && (
+        <CachedDataNotice cachedAt={results.cachedAt} />
+      )}
+
+      {/* Results */}
+      <section className="space-y-6">
+        <div className="flex items-center gap-3">
+          <h2 className="text-2xl font-bold">Results</h2>
+          {!showInitialLoading && results.totalResults > 0 && (
+            <Badge variant="secondary" className="text-sm">
+              {results.totalResults.toLocaleString()} movies found
+            </Badge>
+          )}
+        </div>
+
+        {showInitialLoading ? (
+          <div className="flex justify-center py-16">
+            <div className="text-center space-y-4">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              <p className="text-muted-foreground">Finding movies...</p>
+            </div>
+          </div>
+        ) : (
+          <div ref={results.listRef}>
+            <MovieGrid
+              movies={results.items}
+              onMovieClick={handleMovieClick}
+            />
+
+            {/* Pagination */}
+            {results.mode === 'pages' ? (
+              <ListPagination
+                page={results.page}
+                pageCount={results.pageCount}
+                onPageChange={results.goToPage}
+              />
+            ) : (
+              <InfiniteScrollTrigger
+                onLoadMore={results.loadMore}
+                hasMore={results.hasMore && !results.error}
+                isLoading={results.isLoading}
+                itemCount={results.items.length}
+              />
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,52 +1,98 @@
 import React, { useState } from 'react';
 import { Heart, Trash2, Search } from 'lucide-react';
 import { MovieGrid } from '../components/MovieGrid';
-import { MovieDetailModal } from '../components/MovieDetailModal';
+import { TVShowDetailModal } from '../components/TVShowDetailModal';
 import { SearchBar } from '../components/SearchBar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { useFavorites } from '../hooks/useFavorites';
-import { TMDBMovie } from '../api/apiClient';
-import { dbHelpers } from '../services/idb';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { useGenres } from '../contexts/GenresContext';
+import { TMDBMovie, TMDBMovieResult, TMDBTVResult, TMDBTVShow } from '../api/apiClient';
+import { dbHelpers, Favorite } from '../services/idb';
+import { getMediaTitle } from '@/lib/media';
 import { useToast } from '../hooks/use-toast';
+import { useMovieNavigation } from '../hooks/useMovieNavigation';
+import { useMovieProvider } from '../hooks/useMovieProvider';
 import { cn } from '@/lib/utils';
 
-export default function Favorites() {
-  const [selectedMovie, setSelectedMovie] = useState<TMDBMovie | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const { favorites, isLoading, refreshFavorites } = useFavorites();
-  const { toast } = useToast();
-
-  // Convert favorites to TMDBMovie format for compatibility
-  const favoriteMovies: TMDBMovie[] = favorites.map(fav => ({
+// Rebuilds the search result shape MovieGrid expects from a saved favorite
+const toGridItem = (fav: Favorite): TMDBMovieResult | TMDBTVResult => {
+  const common = {
     id: fav.id,
-    title: fav.title,
     overview: fav.overview,
     poster_path: fav.poster_path,
     backdrop_path: null,
-    release_date: fav.release_date,
     vote_average: fav.vote_average,
     vote_count: 0,
     popularity: 0,
-    adult: false,
-    genre_ids: [],
+    genre_ids: fav.genre_ids ?? [],
     original_language: 'en',
+  };
+
+  if (fav.media_type === 'tv') {
+    return {
+      ...common,
+      media_type: 'tv',
+      name: fav.name,
+      original_name: fav.name,
+      first_air_date: fav.first_air_date,
+      origin_country: [],
+    };
+  }
+
+  return {
+    ...common,
+    media_type: 'movie',
+    title: fav.title,
     original_title: fav.title,
+    release_date: fav.release_date,
+    adult: false,
     video: false,
-  }));
+  };
+};
 
-  // Filter favorites based on search query
-  const filteredFavorites = searchQuery.trim() 
-    ? favoriteMovies.filter(movie => 
-        movie.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        movie.overview.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-    : favoriteMovies;
+export default function Favorites() {
+  const [selectedShow, setSelectedShow] = useState<TMDBTVShow | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [genreFilter, setGenreFilter] = useState<number | null>(null);
+  const { favorites: allFavorites, activeFavorites: favorites, isLoading, clearFavorites } = useFavorites();
+  const provider = useMovieProvider();
+  const { genres } = useGenres();
+  const { toast } = useToast();
+  const { openMovie } = useMovieNavigation();
+
+  const favoriteItems = favorites.map(toGridItem);
+  // Saved under another provider, so they would open the wrong movie here
+  const hiddenCount = allFavorites.length - favorites.length;
+
+  // Only offer genres that at least one favorite belongs to
+  const favoriteGenres = genres.filter(genre =>
+    favoriteItems.some(item => item.genre_ids.includes(genre.id))
+  );
+
+  // Filter favorites based on search query and selected genre
+  const filteredFavorites = favoriteItems.filter(item => {
+    const query = searchQuery.trim().toLowerCase();
+    const matchesQuery = !query ||
+      getMediaTitle(item).toLowerCase().includes(query) ||
+      item.overview.toLowerCase().includes(query);
+    const matchesGenre = genreFilter === null || item.genre_ids.includes(genreFilter);
+    return matchesQuery && matchesGenre;
+  });
+
+  const isFiltering = !!searchQuery.trim() || genreFilter !== null;
+  const genreFilterName = genres.find(genre => genre.id === genreFilter)?.name;
+
+  const clearFilters = () => {
+    setSearchQuery('');
+    setGenreFilter(null);
+  };
 
   const handleMovieClick = async (movie: TMDBMovie) => {
-    setSelectedMovie(movie);
+    openMovie(movie);
     
     // Track movie view from favorites
     await dbHelpers.trackEvent('movie_viewed', { 
@@ -56,20 +102,29 @@ export default function Favorites() {
     });
   };
 
+  const handleTVShowClick = async (show: TMDBTVShow) => {
+    setSelectedShow(show);
+
+    await dbHelpers.trackEvent('tv_show_viewed', {
+      showId: show.id,
+      name: show.name,
+      from: 'favorites'
+    });
+  };
+
   const handleClearAll = async () => {
     if (favorites.length === 0) return;
     
     try {
       // Remove all favorites
-      await Promise.all(favorites.map(fav => dbHelpers.removeFavorite(fav.id)));
-      await refreshFavorites();
+      await clearFavorites(provider.id);
       
       // Track analytics
       await dbHelpers.trackEvent('favorites_cleared', { count: favorites.length });
       
       toast({
         title: "Favorites Cleared",
-        description: `Removed ${favorites.length} movies from your favorites`,
+        description: `Removed ${favorites.length} titles from your favorites`,
       });
     } catch (error) {
       console.error('Failed to clear favorites:', error);
@@ -108,15 +163,21 @@ export default function Favorites() {
           <div>
             <h1 className="text-3xl md:text-4xl font-bold">Your Favorites</h1>
             <p className="text-muted-foreground">
-              Movies you've saved for later viewing
+              Movies and shows you've saved for later viewing
             </p>
+            {hiddenCount > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {hiddenCount} {hiddenCount === 1 ? 'favorite' : 'favorites'} saved from another movie data
+                source {hiddenCount === 1 ? 'is' : 'are'} hidden while {provider.name} is selected
+              </p>
+            )}
           </div>
         </div>
 
         {favorites.length > 0 && (
           <div className="flex items-center justify-center gap-4">
             <Badge variant="secondary" className="text-sm px-3 py-1">
-              {favorites.length} {favorites.length === 1 ? 'movie' : 'movies'} saved
+              {favorites.length} {favorites.length === 1 ? 'title' : 'titles'} saved
             </Badge>
             <Button
               variant="outline"
@@ -144,22 +205,42 @@ export default function Favorites() {
         </div>
       )}
 
+      {/* Genre Filter */}
+      {favoriteGenres.length > 0 && (
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          className="flex-wrap"
+          value={genreFilter !== null ? String(genreFilter) : ''}
+          onValueChange={(value) => setGenreFilter(value ? Number(value) : null)}
+        >
+          {favoriteGenres.map((genre) => (
+            <ToggleGroupItem key={genre.id} value={String(genre.id)}>
+              {genre.name}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
       {/* Search Results Info */}
-      {searchQuery.trim() && favorites.length > 0 && (
+      {isFiltering && favorites.length > 0 && (
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
             <Search className="h-5 w-5 text-muted-foreground" />
             <span className="text-sm text-muted-foreground">
-              {filteredFavorites.length} of {favorites.length} favorites match "{searchQuery}"
+              {filteredFavorites.length} of {favorites.length} favorites match
+              {searchQuery.trim() && ` "${searchQuery}"`}
+              {genreFilterName && ` in ${genreFilterName}`}
             </span>
           </div>
           {filteredFavorites.length !== favorites.length && (
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => setSearchQuery('')}
+              onClick={clearFilters}
             >
-              Clear Search
+              Clear Filters
             </Button>
           )}
         </div>
@@ -191,13 +272,13 @@ export default function Favorites() {
         <Alert>
           <Search className="h-4 w-4" />
           <AlertDescription>
-            No favorites match your search for "{searchQuery}". 
-            Try a different search term or{' '}
+            No favorites match your filters. 
+            Try a different search term or genre, or{' '}
             <button 
-              onClick={() => setSearchQuery('')}
+              onClick={clearFilters}
               className="text-primary hover:underline"
             >
-              clear your search
+              clear your filters
             </button>.
           </AlertDescription>
         </Alert>
@@ -206,14 +287,15 @@ export default function Favorites() {
         <MovieGrid
           movies={filteredFavorites}
           onMovieClick={handleMovieClick}
+          onTVShowClick={handleTVShowClick}
         />
       )}
 
-      {/* Movie Detail Modal */}
-      <MovieDetailModal
-        movie={selectedMovie}
-        isOpen={!!selectedMovie}
-        onClose={() => setSelectedMovie(null)}
+      {/* TV Show Detail Modal */}
+      <TVShowDetailModal
+        show={selectedShow}
+        isOpen={!!selectedShow}
+        onClose={() => setSelectedShow(null)}
       />
     </div>
   );
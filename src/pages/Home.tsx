@@ -1,139 +1,222 @@
-import React, { useState, useEffect } from 'react';
-import { AlertCircle, TrendingUp } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { AlertCircle, TrendingUp, Flame, Clapperboard, CalendarClock, Award, LucideIcon } from 'lucide-react';
 import { SearchBar } from '../components/SearchBar';
 import { MovieGrid } from '../components/MovieGrid';
-import { MovieDetailModal } from '../components/MovieDetailModal';
+import { MovieRail } from '../components/MovieRail';
+import { ListPagination } from '../components/ListPagination';
+import { InfiniteScrollTrigger } from '../components/InfiniteScrollTrigger';
+import { TVShowDetailModal } from '../components/TVShowDetailModal';
+import { CachedDataNotice } from '../components/CachedDataNotice';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { TMDBMovie, tmdbAPI, APIError } from '../api/apiClient';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { TMDBTrendingWindow, TMDBTVShow, tmdbClient } from '../api/apiClient';
+import { Movie, MovieListKind } from '../api/providers/types';
+import { SearchResultType, searchByType, searchResultTypes } from '../api/search';
 import { dbHelpers } from '../services/idb';
 import { useToast } from '../hooks/use-toast';
+import { useMovieNavigation } from '../hooks/useMovieNavigation';
+import { useMovieProvider } from '../hooks/useMovieProvider';
+import { usePopularMovies, usePopularTVShows, useMovieSearch } from '../hooks/useMovieQueries';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+
+type PopularType = 'movie' | 'tv';
+
+interface MovieList {
+  id: MovieListKind;
+  title: string;
+  icon: LucideIcon;
+}
+
+// Curated lists shown as rails above the popular grid, after trending
+const movieLists: MovieList[] = [
+  { id: 'now_playing', title: 'Now Playing', icon: Clapperboard },
+  { id: 'upcoming', title: 'Upcoming', icon: CalendarClock },
+  { id: 'top_rated', title: 'Top Rated', icon: Award },
+];
+
+const isSearchResultType = (value: string | null): value is SearchResultType =>
+  searchResultTypes.some(type => type.value === value);
 
 export default function Home() {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [movies, setMovies] = useState<TMDBMovie[]>([]);
-  const [popularMovies, setPopularMovies] = useState<TMDBMovie[]>([]);
-  const [selectedMovie, setSelectedMovie] = useState<TMDBMovie | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isLoadingPopular, setIsLoadingPopular] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [hasMore, setHasMore] = useState(false);
-  const [isSearchMode, setIsSearchMode] = useState(false);
+  // The submitted search lives in the URL, so going back returns to the same results
+  const [searchParams, setSearchParams] = useSearchParams();
+  const submittedQuery = searchParams.get('q') ?? '';
+  const typeParam = searchParams.get('type');
+  const searchType: SearchResultType = isSearchResultType(typeParam) ? typeParam : 'all';
+  const isSearchMode = submittedQuery.trim().length > 0;
+
+  const [searchQuery, setSearchQuery] = useState(submittedQuery);
+  const [popularType, setPopularType] = useState<PopularType>('movie');
+  const [trendingWindow, setTrendingWindow] = useState<TMDBTrendingWindow>('day');
+  const [selectedShow, setSelectedShow] = useState<TMDBTVShow | null>(null);
   
   const { toast } = useToast();
+  const { openMovie } = useMovieNavigation();
+  const { isOffline } = useOnlineStatus();
+  const provider = useMovieProvider();
+  const { tvShows, multiSearch } = provider.features;
+  // Providers without TV shows always list movies
+  const showTVShows = tvShows && popularType === 'tv';
 
-  // Load popular movies on mount
+  const popularMovies = usePopularMovies(!showTVShows);
+  const popularShows = usePopularTVShows(showTVShows);
+  const popularList = showTVShows ? popularShows : popularMovies;
+  const searchList = useMovieSearch(submittedQuery, searchType);
+
+  const activeList = isSearchMode ? searchList : popularList;
+
+  // The lists as of the latest render, for effects that shouldn't re-run
+  // every time the lists change
+  const listsRef = useRef({ popularList, searchList, isSearchMode });
+  listsRef.current = { popularList, searchList, isSearchMode };
+
+  // Track page view
   useEffect(() => {
-    loadPopularMovies();
-  }, []);
+    dbHelpers.trackEvent('page_view', { page: 'home', popularType });
+  }, [popularType]);
 
-  const loadPopularMovies = async () => {
-    try {
-      setIsLoadingPopular(true);
-      setError(null);
-      
-      const response = await tmdbAPI.getPopularMovies(1);
-      setPopularMovies(response.results);
-      
-      // Track page view
-      await dbHelpers.trackEvent('page_view', { page: 'home', popularMoviesCount: response.results.length });
-    } catch (err) {
-      console.error('Failed to load popular movies:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load popular movies';
-      setError(errorMessage);
-      
+  // Track search once its first page is in
+  const searchTotal = isSearchMode && !searchList.isLoading && !searchList.error
+    ? searchList.totalResults
+    : null;
+  useEffect(() => {
+    if (searchTotal === null) return;
+    dbHelpers.trackEvent('search_completed', {
+      query: submittedQuery,
+      type: searchType,
+      resultsCount: listsRef.current.searchList.items.length,
+      totalResults: searchTotal,
+    });
+  }, [submittedQuery, searchType, searchTotal]);
+
+  // Keep the input in step with back/forward between searches
+  useEffect(() => {
+    setSearchQuery(submittedQuery);
+  }, [submittedQuery]);
+
+  useEffect(() => {
+    if (activeList.error) {
       toast({
-        title: "Error",
-        description: "Failed to load popular movies. Please try again.",
+        title: isSearchMode ? "Search Failed" : "Error",
+        description: activeList.error,
         variant: "destructive",
       });
-    } finally {
-      setIsLoadingPopular(false);
-    }
-  };
-
-  const handleSearch = async (query: string, page = 1, append = false) => {
-    if (!query.trim()) {
-      setIsSearchMode(false);
-      setMovies([]);
-      return;
     }
+  }, [activeList.error, isSearchMode, toast]);
 
+  const replayQueuedSearches = useCallback(async () => {
     try {
-      setIsLoading(true);
-      setError(null);
-      setIsSearchMode(true);
-
-      const response = await tmdbAPI.searchMovies(query, page);
-      
-      if (append) {
-        setMovies(prev => [...prev, ...response.results]);
-      } else {
-        setMovies(response.results);
-        setCurrentPage(1);
+      const queued = await dbHelpers.getQueuedSearches();
+
+      for (const { type, query } of queued) {
+        // Providers without multi search only ever searched movies
+        if (multiSearch) {
+          await searchByType(type, query);
+        } else {
+          await provider.searchMovies(query, 1);
+        }
+        await dbHelpers.removeQueuedSearch(type, query);
+      }
+
+      if (queued.length > 0) {
+        await dbHelpers.trackEvent('offline_searches_replayed', { count: queued.length });
+        toast({
+          title: "Back Online",
+          description: `Refreshed ${queued.length} ${queued.length === 1 ? 'search' : 'searches'} made while offline`,
+        });
+      }
+
+      // Swap any cached results on screen for live ones
+      const { popularList, searchList, isSearchMode } = listsRef.current;
+      if (popularList.cachedAt) {
+        popularList.reload();
+      }
+      if (isSearchMode && (searchList.cachedAt || searchList.error)) {
+        searchList.reload();
       }
-      
-      setHasMore(page < response.total_pages);
-      setCurrentPage(page);
-      
-      // Track search
-      await dbHelpers.trackEvent('search_completed', { 
-        query, 
-        page, 
-        resultsCount: response.results.length,
-        totalResults: response.total_results 
-      });
-      
     } catch (err) {
-      console.error('Search failed:', err);
-      const apiError = err as APIError;
-      const errorMessage = apiError.isNetworkError 
-        ? 'Network error. Please check your connection and try again.'
-        : apiError.message || 'Search failed. Please try again.';
-      
-      setError(errorMessage);
-      
-      toast({
-        title: "Search Failed",
-        description: errorMessage,
-        variant: "destructive",
+      console.error('Failed to replay offline searches:', err);
+    }
+  }, [multiSearch, provider, toast]);
+
+  // Replay searches made while offline once connectivity returns
+  useEffect(() => {
+    if (!isOffline) {
+      replayQueuedSearches();
+    }
+  }, [isOffline, replayQueuedSearches]);
+
+  const updateSearchParams = (updates: Record<string, string | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
       });
-    } finally {
-      setIsLoading(false);
+      return next;
+    }, { replace: true });
+  };
+
+  const handleSearch = async (query: string) => {
+    const trimmed = query.trim();
+
+    // Submitting the same search again retries it
+    if (trimmed && trimmed === submittedQuery) {
+      searchList.retry();
+    } else {
+      updateSearchParams({ q: trimmed || null });
+    }
+
+    if (trimmed && tmdbClient.isOffline()) {
+      await dbHelpers.queueSearch(searchType, trimmed);
     }
   };
 
-  const loadMore = () => {
-    if (searchQuery.trim() && hasMore && !isLoading) {
-      handleSearch(searchQuery, currentPage + 1, true);
+  const handleSearchTypeChange = async (type: SearchResultType) => {
+    updateSearchParams({ type: type === 'all' ? null : type });
+
+    // Switching type runs the search again, so it needs replaying too
+    if (submittedQuery && tmdbClient.isOffline()) {
+      await dbHelpers.queueSearch(type, submittedQuery);
     }
   };
 
-  const handleMovieClick = async (movie: TMDBMovie) => {
-    setSelectedMovie(movie);
+  const handleClearSearch = () => {
+    setSearchQuery('');
+    updateSearchParams({ q: null });
+  };
+
+  const handleMovieClick = async (movie: Movie, from = isSearchMode ? 'search' : 'popular') => {
+    openMovie(movie);
     
     // Track movie view
     await dbHelpers.trackEvent('movie_viewed', { 
       movieId: movie.id, 
       title: movie.title,
-      from: isSearchMode ? 'search' : 'popular'
+      from
     });
   };
 
-  const handleRetry = () => {
-    if (isSearchMode && searchQuery.trim()) {
-      handleSearch(searchQuery);
-    } else {
-      loadPopularMovies();
-    }
+  const handleTVShowClick = async (show: TMDBTVShow) => {
+    setSelectedShow(show);
+
+    await dbHelpers.trackEvent('tv_show_viewed', {
+      showId: show.id,
+      name: show.name,
+      from: isSearchMode ? 'search' : 'popular'
+    });
   };
 
-  const displayMovies = isSearchMode ? movies : popularMovies;
-  const showLoadMore = isSearchMode && hasMore && movies.length > 0;
-  const showLoading = isSearchMode ? isLoading : isLoadingPopular;
+  const displayMovies = activeList.items;
+  const showLoading = activeList.isLoading && displayMovies.length === 0;
+  const error = activeList.error;
 
   return (
     <div className="space-y-8">
@@ -152,8 +235,11 @@ export default function Home() {
             value={searchQuery}
             onChange={setSearchQuery}
             onSearch={(query) => handleSearch(query)}
-            isLoading={showLoading}
-            placeholder="Search for movies..."
+            isLoading={activeList.isLoading}
+            placeholder={multiSearch ? "Search movies, TV shows and people..." : "Search movies..."}
+            includePeople={provider.features.people}
+            resultType={searchType}
+            onResultTypeChange={multiSearch ? handleSearchTypeChange : undefined}
             className="mx-auto"
           />
         </div>
@@ -168,7 +254,7 @@ export default function Home() {
             <Button
               variant="outline"
               size="sm"
-              onClick={handleRetry}
+              onClick={activeList.retry}
               className="ml-4"
             >
               Try Again
@@ -177,6 +263,53 @@ export default function Home() {
         </Alert>
       )}
 
+      {/* Offline Indicator */}
+      {activeList.cachedAt && !showLoading && (
+        <CachedDataNotice cachedAt={activeList.cachedAt} />
+      )}
+
+      {/* Movie Lists */}
+      {!isSearchMode && (
+        <section className="space-y-10">
+          <MovieRail
+            heading={
+              <div className="flex items-center gap-3">
+                <Flame className="h-6 w-6 text-primary" />
+                <h2 className="text-2xl font-bold">Trending</h2>
+              </div>
+            }
+            listKey={`trending-${trendingWindow}`}
+            fetchPage={(page, signal) => provider.getMovieList(`trending_${trendingWindow}`, page, signal)}
+            onMovieSelect={(movie) => handleMovieClick(movie, 'trending')}
+            emptyMessage="No trending movies right now."
+            actions={
+              <Tabs value={trendingWindow} onValueChange={(value) => setTrendingWindow(value as TMDBTrendingWindow)}>
+                <TabsList>
+                  <TabsTrigger value="day">Today</TabsTrigger>
+                  <TabsTrigger value="week">This Week</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            }
+          />
+
+          {movieLists.map(({ id, title, icon: Icon }) => (
+            <MovieRail
+              key={id}
+              heading={
+                <div className="flex items-center gap-3">
+                  <Icon className="h-6 w-6 text-primary" />
+                  <h2 className="text-2xl font-bold">{title}</h2>
+                </div>
+              }
+              listKey={id}
+              fetchPage={(page, signal) => provider.getMovieList(id, page, signal)}
+              onMovieSelect={(movie) => handleMovieClick(movie, id)}
+              emptyMessage={`No ${title.toLowerCase()} movies found.`}
+            />
+          ))}
+        </section>
+      )}
+
       {/* Content Section */}
       <section className="space-y-6">
         {/* Section Header */}
@@ -185,46 +318,50 @@ export default function Home() {
             {isSearchMode ? (
               <>
                 <h2 className="text-2xl font-bold">Search Results</h2>
-                {movies.length > 0 && (
+                {searchList.totalResults > 0 && (
                   <Badge variant="secondary" className="text-sm">
-                    {movies.length} movies found
+                    {searchList.totalResults.toLocaleString()} results found
                   </Badge>
                 )}
               </>
             ) : (
               <>
                 <TrendingUp className="h-6 w-6 text-primary" />
-                <h2 className="text-2xl font-bold">Popular Movies</h2>
-                {popularMovies.length > 0 && (
+                <h2 className="text-2xl font-bold">
+                  {showTVShows ? 'Popular TV Shows' : 'Popular Movies'}
+                </h2>
+                {popularList.totalResults > 0 && (
                   <Badge variant="secondary" className="text-sm">
-                    {popularMovies.length} movies
+                    {popularList.totalResults.toLocaleString()} {showTVShows ? 'shows' : 'movies'}
                   </Badge>
                 )}
               </>
             )}
           </div>
 
-          {isSearchMode && searchQuery && (
-            <Button
-              variant="outline"
-              onClick={() => {
-                setSearchQuery('');
-                setIsSearchMode(false);
-                setMovies([]);
-              }}
-            >
+          {!isSearchMode && tvShows && (
+            <Tabs value={popularType} onValueChange={(value) => setPopularType(value as PopularType)}>
+              <TabsList>
+                <TabsTrigger value="movie">Movies</TabsTrigger>
+                <TabsTrigger value="tv">TV Shows</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+
+          {isSearchMode && (
+            <Button variant="outline" onClick={handleClearSearch}>
               Clear Search
             </Button>
           )}
         </div>
 
         {/* Loading State */}
-        {showLoading && displayMovies.length === 0 && (
+        {showLoading && (
           <div className="flex justify-center py-16">
             <div className="text-center space-y-4">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
               <p className="text-muted-foreground">
-                {isSearchMode ? 'Searching movies...' : 'Loading popular movies...'}
+                {isSearchMode ? 'Searching...' : `Loading popular ${showTVShows ? 'TV shows' : 'movies'}...`}
               </p>
             </div>
           </div>
@@ -232,33 +369,29 @@ export default function Home() {
 
         {/* Movies Grid */}
         {!showLoading && (
-          <>
+          <div ref={activeList.listRef}>
             <MovieGrid
               movies={displayMovies}
               onMovieClick={handleMovieClick}
+              onTVShowClick={handleTVShowClick}
             />
 
-            {/* Load More Button */}
-            {showLoadMore && (
-              <div className="flex justify-center pt-8">
-                <Button
-                  onClick={loadMore}
-                  disabled={isLoading}
-                  size="lg"
-                  className="min-w-[200px]"
-                >
-                  {isLoading ? (
-                    <>
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current mr-2"></div>
-                      Loading...
-                    </>
-                  ) : (
-                    'Load More Movies'
-                  )}
-                </Button>
-              </div>
+            {/* Pagination */}
+            {activeList.mode === 'pages' ? (
+              <ListPagination
+                page={activeList.page}
+                pageCount={activeList.pageCount}
+                onPageChange={activeList.goToPage}
+              />
+            ) : (
+              <InfiniteScrollTrigger
+                onLoadMore={activeList.loadMore}
+                hasMore={activeList.hasMore && !error}
+                isLoading={activeList.isLoading}
+                itemCount={displayMovies.length}
+              />
             )}
-          </>
+          </div>
         )}
 
         {/* No API Key Warning */}
@@ -295,11 +428,11 @@ export default function Home() {
         )}
       </section>
 
-      {/* Movie Detail Modal */}
-      <MovieDetailModal
-        movie={selectedMovie}
-        isOpen={!!selectedMovie}
-        onClose={() => setSelectedMovie(null)}
+      {/* TV Show Detail Modal */}
+      <TVShowDetailModal
+        show={selectedShow}
+        isOpen={!!selectedShow}
+        onClose={() => setSelectedShow(null)}
       />
     </div>
   );
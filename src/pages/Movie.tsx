@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useLocation, useNavigate } from 'react-router-dom';
+import { MovieDetailModal } from '../components/MovieDetailModal';
+import { APIError } from '../api/apiClient';
+import { Movie as MovieModel } from '../api/providers/types';
+import { MovieRouteState, getMoviePath } from '../hooks/useMovieNavigation';
+import { useMovieProvider } from '../hooks/useMovieProvider';
+import { dbHelpers } from '../services/idb';
+import { useToast } from '../hooks/use-toast';
+
+export default function Movie() {
+  const { id } = useParams<{ id: string }>();
+  const movieId = Number(id);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const provider = useMovieProvider();
+  const [loadedMovie, setLoadedMovie] = useState<MovieModel | null>(null);
+
+  const state = (location.state as MovieRouteState | null) ?? {};
+  const depth = state.depth ?? 1;
+  // Lists hand over the movie they already have; cold visits fetch it by id
+  const routeMovie = state.movie?.id === movieId ? state.movie : null;
+  const movie = routeMovie ?? (loadedMovie?.id === movieId ? loadedMovie : null);
+
+  useEffect(() => {
+    if (routeMovie) return;
+    const controller = new AbortController();
+
+    const handleLoadError = (description: string) => {
+      toast({
+        title: "Error",
+        description,
+        variant: "destructive",
+      });
+      navigate('/', { replace: true });
+    };
+
+    const loadMovie = async (signal: AbortSignal) => {
+      if (!Number.isInteger(movieId) || movieId <= 0) {
+        handleLoadError('This movie could not be found.');
+        return;
+      }
+
+      try {
+        const details = await provider.getMovieDetails(movieId, signal);
+        if (signal.aborted) return;
+        setLoadedMovie(details);
+
+        await dbHelpers.trackEvent('movie_viewed', {
+          movieId,
+          title: details.title,
+          from: 'link',
+        });
+      } catch (err) {
+        const apiError = err as APIError;
+        if (apiError.isAborted) return;
+
+        console.error('Failed to load movie:', err);
+        handleLoadError(apiError.isNetworkError
+          ? 'Network error. Please check your connection and try again.'
+          : 'This movie could not be loaded.');
+      }
+    };
+
+    loadMovie(controller.signal);
+    return () => controller.abort();
+  }, [movieId, routeMovie, provider, toast, navigate]);
+
+  const handleClose = () => {
+    if (state.backgroundLocation) {
+      // Unwind every movie opened since the background page
+      navigate(-depth);
+    } else {
+      navigate('/', { replace: true });
+    }
+  };
+
+  const handleRelatedMovieSelect = (related: MovieModel) => {
+    const nextState: MovieRouteState = {
+      backgroundLocation: state.backgroundLocation,
+      movie: related,
+      depth: depth + 1,
+      previousTitle: movie?.title,
+    };
+    navigate(getMoviePath(related.id), { state: nextState });
+  };
+
+  return (
+    <MovieDetailModal
+      movie={movie}
+      isOpen={!!movie}
+      onClose={handleClose}
+      onRelatedMovieSelect={handleRelatedMovieSelect}
+      backLabel={depth > 1 ? state.previousTitle : undefined}
+      onBack={depth > 1 ? () => navigate(-1) : undefined}
+    />
+  );
+}
@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, Calendar, MapPin, User, Film } from 'lucide-react';
+import { MovieGrid } from '../components/MovieGrid';
+import { CachedDataNotice } from '../components/CachedDataNotice';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  TMDBMovie,
+  TMDBPersonDetails,
+  TMDBPersonMovieCredits,
+  tmdbAPI,
+  tmdbClient,
+  APIError,
+} from '../api/apiClient';
+import { dbHelpers } from '../services/idb';
+import { useToast } from '../hooks/use-toast';
+import { useMovieNavigation } from '../hooks/useMovieNavigation';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+type CreditRole = 'cast' | 'crew';
+type FilmographySort = 'newest' | 'oldest' | 'popularity' | 'rating' | 'title';
+
+const sortOptions: Array<{ value: FilmographySort; label: string }> = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'popularity', label: 'Most popular' },
+  { value: 'rating', label: 'Highest rated' },
+  { value: 'title', label: 'Title (A-Z)' },
+];
+
+// Undated credits are usually unreleased projects, so they sort as newest
+const releaseTime = (movie: TMDBMovie) =>
+  movie.release_date ? new Date(movie.release_date).getTime() : Number.MAX_SAFE_INTEGER;
+
+const compareMovies: Record<FilmographySort, (a: TMDBMovie, b: TMDBMovie) => number> = {
+  newest: (a, b) => releaseTime(b) - releaseTime(a),
+  oldest: (a, b) => releaseTime(a) - releaseTime(b),
+  popularity: (a, b) => b.popularity - a.popularity,
+  rating: (a, b) => b.vote_average - a.vote_average,
+  title: (a, b) => a.title.localeCompare(b.title),
+};
+
+// A person can hold several jobs on one movie; keep one card per movie
+const uniqueMovies = <T extends TMDBMovie>(movies: T[]) =>
+  movies.filter((movie, index) => movies.findIndex(m => m.id === movie.id) === index);
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+export default function Person() {
+  const { id } = useParams<{ id: string }>();
+  const personId = Number(id);
+  const [person, setPerson] = useState<TMDBPersonDetails | null>(null);
+  const [credits, setCredits] = useState<TMDBPersonMovieCredits | null>(null);
+  const [role, setRole] = useState<CreditRole>('cast');
+  const [sortBy, setSortBy] = useState<FilmographySort>('newest');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showFullBio, setShowFullBio] = useState(false);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { openMovie } = useMovieNavigation();
+  const { preferences } = usePreferences();
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const loadPerson = async (signal: AbortSignal) => {
+      if (!Number.isInteger(personId) || personId <= 0) {
+        setError('This person could not be found.');
+        setIsLoading(false);
+        return;
+      }
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const [details, movieCredits] = await Promise.all([
+          tmdbAPI.getPersonDetails(personId, signal),
+          tmdbAPI.getPersonMovieCredits(personId, signal),
+        ]);
+        if (signal.aborted) return;
+
+        setPerson(details);
+        setCredits(movieCredits);
+        setCachedAt(tmdbClient.getCacheInfo(details)?.cachedAt ?? null);
+        setShowFullBio(false);
+        // Open on the side of the filmography the person is best known for
+        setRole(details.known_for_department === 'Acting' || movieCredits.crew.length === 0 ? 'cast' : 'crew');
+
+        await dbHelpers.trackEvent('person_viewed', { personId, name: details.name });
+      } catch (err) {
+        const apiError = err as APIError;
+        if (apiError.isAborted) return;
+
+        console.error('Failed to load person:', err);
+        const errorMessage = apiError.isNetworkError
+          ? 'Network error. Please check your connection and try again.'
+          : apiError.message || 'Failed to load this person. Please try again.';
+        setError(errorMessage);
+
+        toast({
+          title: "Error",
+          description: errorMessage,
+          variant: "destructive",
+        });
+      } finally {
+        if (!signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadPerson(controller.signal);
+    return () => controller.abort();
+  }, [personId, preferences.language, toast]);
+
+  const handleMovieClick = async (movie: TMDBMovie) => {
+    openMovie(movie);
+
+    await dbHelpers.trackEvent('movie_viewed', {
+      movieId: movie.id,
+      title: movie.title,
+      from: 'person',
+    });
+  };
+
+  if (isLoading && person?.id !== personId) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="text-center space-y-4">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="text-muted-foreground">Loading filmography...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !person || !credits) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription className="flex items-center justify-between">
+          <span>{error ?? 'This person could not be found.'}</span>
+          <Button asChild variant="outline" size="sm" className="ml-4">
+            <Link to="/">Back to Home</Link>
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const castMovies = uniqueMovies(credits.cast);
+  const crewMovies = uniqueMovies(credits.crew);
+  const filmography = [...(role === 'cast' ? castMovies : crewMovies)].sort(compareMovies[sortBy]);
+
+  // TMDB's vote count is the best available proxy for how well known a title is
+  const knownFor = [...(person.known_for_department === 'Acting' ? castMovies : crewMovies)]
+    .sort((a, b) => b.vote_count - a.vote_count)
+    .slice(0, 10);
+
+  const crewJobs = Array.from(new Set(credits.crew.map(credit => credit.job)));
+  const profileUrl = person.profile_path ? tmdbAPI.getImageUrl(person.profile_path, 'w300') : null;
+  const biography = person.biography.trim();
+  const isLongBio = biography.length > 600;
+
+  return (
+    <div className="space-y-8">
+      <Button variant="ghost" onClick={() => navigate(-1)} className="flex items-center gap-2">
+        <ArrowLeft className="h-4 w-4" />
+        Back
+      </Button>
+
+      {cachedAt && <CachedDataNotice cachedAt={cachedAt} />}
+
+      {/* Profile */}
+      <section className="flex flex-col md:flex-row gap-8">
+        <div className="flex-shrink-0">
+          <div className="w-48 aspect-[2/3] overflow-hidden rounded-lg bg-muted shadow-lg mx-auto md:mx-0">
+            {profileUrl ? (
+              <img src={profileUrl} alt={person.name} className="h-full w-full object-cover" />
+            ) : (
+              <div className="flex h-full w-full items-center justify-center">
+                <User className="h-16 w-16 text-muted-foreground" />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-0 space-y-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl md:text-4xl font-bold">{person.name}</h1>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+              {person.known_for_department && (
+                <Badge variant="secondary">{person.known_for_department}</Badge>
+              )}
+              {person.birthday && (
+                <div className="flex items-center gap-1">
+                  <Calendar className="h-4 w-4" />
+                  {formatDate(person.birthday)}
+                  {person.deathday && ` – ${formatDate(person.deathday)}`}
+                </div>
+              )}
+              {person.place_of_birth && (
+                <div className="flex items-center gap-1">
+                  <MapPin className="h-4 w-4" />
+                  {person.place_of_birth}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h2 className="text-lg font-semibold">Biography</h2>
+            {biography ? (
+              <>
+                <p className="text-muted-foreground leading-relaxed whitespace-pre-line">
+                  {isLongBio && !showFullBio ? `${biography.slice(0, 600).trimEnd()}…` : biography}
+                </p>
+                {isLongBio && (
+                  <Button variant="link" className="h-auto p-0" onClick={() => setShowFullBio(prev => !prev)}>
+                    {showFullBio ? 'Show less' : 'Read more'}
+                  </Button>
+                )}
+              </>
+            ) : (
+              <p className="text-muted-foreground">No biography available.</p>
+            )}
+          </div>
+        </div>
+      </section>
+
+      {/* Known For */}
+      {knownFor.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-2xl font-bold">Known For</h2>
+          <ScrollArea className="w-full whitespace-nowrap">
+            <div className="flex gap-4 pb-4">
+              {knownFor.map((movie) => (
+                <button
+                  key={movie.id}
+                  onClick={() => handleMovieClick(movie)}
+                  className="w-32 flex-shrink-0 space-y-2 text-left group"
+                >
+                  <div className="aspect-[2/3] overflow-hidden rounded-md bg-muted">
+                    {movie.poster_path ? (
+                      <img
+                        src={tmdbAPI.getImageUrl(movie.poster_path, 'w185')}
+                        alt={`${movie.title} poster`}
+                        className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
+                        loading="lazy"
+                      />
+                    ) : (
+                      <div className="flex h-full w-full items-center justify-center">
+                        <Film className="h-8 w-8 text-muted-foreground" />
+                      </div>
+                    )}
+                  </div>
+                  <p className="whitespace-normal text-sm font-medium leading-tight line-clamp-2 group-hover:text-primary">
+                    {movie.title}
+                  </p>
+                </button>
+              ))}
+            </div>
+            <ScrollBar orientation="horizontal" />
+          </ScrollArea>
+        </section>
+      )}
+
+      {/* Filmography */}
+      <section className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-bold">Filmography</h2>
+            <Badge variant="secondary" className="text-sm">
+              {filmography.length} movies
+            </Badge>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <Tabs value={role} onValueChange={(value) => setRole(value as CreditRole)}>
+              <TabsList>
+                <TabsTrigger value="cast" disabled={castMovies.length === 0}>
+                  Acting
+                </TabsTrigger>
+                <TabsTrigger value="crew" disabled={crewMovies.length === 0}>
+                  {crewJobs.length === 1 ? crewJobs[0] : 'Crew'}
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            <Select value={sortBy} onValueChange={(value) => setSortBy(value as FilmographySort)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sortOptions.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <MovieGrid movies={filmography} onMovieClick={handleMovieClick} />
+      </section>
+    </div>
+  );
+}
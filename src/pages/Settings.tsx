@@ -1,22 +1,55 @@
-import React, { useState } from 'react';
-import { Settings as SettingsIcon, Moon, Sun, Monitor, Trash2, Download, BarChart3 } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Settings as SettingsIcon, Moon, Sun, Monitor, Trash2, Download, BarChart3, Database, Upload } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { usePreferences } from '../contexts/PreferencesContext';
-import { dbHelpers } from '../services/idb';
+import { ImportDataDialog } from '../components/ImportDataDialog';
+import { ClearDataDialog, DataCategory } from '../components/ClearDataDialog';
+import { Preferences, usePreferences } from '../contexts/PreferencesContext';
+import { MovieProviderId } from '../api/providers/registry';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { dbHelpers, getFavoriteKey } from '../services/idb';
+import { cacheManager, CacheStats } from '../services/cacheManager';
+import { FavoritesImportMode, ImportPreview, parseExportFile, previewImport } from '../services/dataImport';
 import { useToast } from '../hooks/use-toast';
 
 export default function Settings() {
-  const { preferences, updatePreferences, isLoading } = usePreferences();
+  const { preferences, updatePreferences, resetPreferences, isLoading } = usePreferences();
   const [analytics, setAnalytics] = useState<any[]>([]);
   const [showAnalytics, setShowAnalytics] = useState(false);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [showClearDialog, setShowClearDialog] = useState(false);
+  const [catalogueUrl, setCatalogueUrl] = useState(preferences.catalogueUrl);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { favorites, importFavorites, clearFavorites } = useFavorites();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    loadCacheStats();
+  }, [preferences.cacheBudgetMB]);
+
+  // Follow the saved URL once preferences load or are imported
+  useEffect(() => {
+    setCatalogueUrl(preferences.catalogueUrl);
+  }, [preferences.catalogueUrl]);
+
+  const loadCacheStats = async () => {
+    try {
+      setCacheStats(await cacheManager.getStats());
+    } catch (error) {
+      console.error('Failed to load cache stats:', error);
+    }
+  };
 
   const handleThemeChange = (theme: 'light' | 'dark') => {
     updatePreferences({ theme });
@@ -26,36 +59,98 @@ export default function Settings() {
     updatePreferences({ pageSize: parseInt(pageSize) });
   };
 
+  const handlePaginationModeChange = (paginationMode: string) => {
+    updatePreferences({ paginationMode: paginationMode as Preferences['paginationMode'] });
+  };
+
   const handleLanguageChange = (language: string) => {
     updatePreferences({ language });
   };
 
+  const handleMovieProviderChange = (movieProvider: string) => {
+    updatePreferences({ movieProvider: movieProvider as MovieProviderId });
+  };
+
+  // Saved when editing ends rather than on every keystroke, since each new
+  // URL loads a different catalogue
+  const handleCatalogueUrlCommit = () => {
+    const trimmed = catalogueUrl.trim();
+    if (!trimmed) {
+      setCatalogueUrl(preferences.catalogueUrl);
+      return;
+    }
+    if (trimmed !== preferences.catalogueUrl) {
+      updatePreferences({ catalogueUrl: trimmed });
+    }
+  };
+
   const handleOfflineModeToggle = (offlineMode: boolean) => {
     updatePreferences({ offlineMode });
   };
 
-  const clearAllData = async () => {
+  const handleCacheBudgetChange = async (cacheBudgetMB: string) => {
+    await updatePreferences({ cacheBudgetMB: parseInt(cacheBudgetMB) });
+    await cacheManager.enforceBudget();
+    await loadCacheStats();
+  };
+
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const clearData = async (categories: DataCategory[]) => {
+    const everything: DataCategory[] = ['favorites', 'history', 'cache', 'analytics', 'preferences'];
+
     try {
-      // Clear all data using helper functions
-      const [favorites, searchHistory, analytics] = await Promise.all([
-        dbHelpers.getFavorites(),
-        dbHelpers.getSearchHistory(1000),
-        dbHelpers.getAnalytics(1000),
-      ]);
+      if (everything.every(category => categories.includes(category))) {
+        // Everything: wipe every store at once and start from a clean page
+        queryClient.clear();
+        await dbHelpers.clearAllStores();
+        localStorage.clear();
+
+        toast({
+          title: "Data Cleared",
+          description: "All app data has been cleared successfully",
+        });
+
+        // Reload page to reset state
+        setTimeout(() => window.location.reload(), 1000);
+        return;
+      }
+
+      for (const category of categories) {
+        switch (category) {
+          case 'favorites':
+            await clearFavorites();
+            break;
+          case 'history':
+            await dbHelpers.clearStore('search-history');
+            await dbHelpers.clearStore('pending-searches');
+            break;
+          case 'cache':
+            await dbHelpers.clearStore('api-cache');
+            await dbHelpers.clearStore('genres');
+            await dbHelpers.clearStore('query-cache');
+            queryClient.clear();
+            await loadCacheStats();
+            break;
+          case 'analytics':
+            await dbHelpers.clearStore('analytics');
+            setAnalytics([]);
+            setShowAnalytics(false);
+            break;
+          case 'preferences':
+            await resetPreferences();
+            break;
+        }
+      }
 
-      // Delete all favorites
-      await Promise.all(favorites.map(fav => dbHelpers.removeFavorite(fav.id)));
-      
-      // Clear localStorage
-      localStorage.clear();
-      
       toast({
         title: "Data Cleared",
-        description: "All app data has been cleared successfully",
+        description: "The selected data has been cleared",
       });
-      
-      // Reload page to reset state
-      setTimeout(() => window.location.reload(), 1000);
     } catch (error) {
       console.error('Failed to clear data:', error);
       toast({
@@ -63,6 +158,8 @@ export default function Settings() {
         description: "Failed to clear app data. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setShowClearDialog(false);
     }
   };
 
@@ -109,6 +206,64 @@ export default function Settings() {
     }
   };
 
+  const handleImportFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const data = parseExportFile(await file.text());
+      setImportPreview(previewImport(data, favorites.map(getFavoriteKey)));
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Failed to read the selected file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmImport = async (mode: FavoritesImportMode) => {
+    if (!importPreview) return;
+    const { data, newFavorites } = importPreview;
+
+    try {
+      setIsImporting(true);
+
+      await importFavorites(data.favorites, mode === 'replace');
+      await dbHelpers.importSearchHistory(data.searchHistory);
+      if (data.preferences && Object.keys(data.preferences).length > 0) {
+        await updatePreferences(data.preferences);
+      }
+
+      await dbHelpers.trackEvent('data_imported', {
+        mode,
+        favorites: data.favorites.length,
+        searchHistory: data.searchHistory.length,
+      });
+
+      const added = mode === 'replace' ? data.favorites.length : newFavorites.length;
+      toast({
+        title: "Data Imported",
+        description: mode === 'replace'
+          ? `Your favorites were replaced with ${added} ${added === 1 ? 'title' : 'titles'}`
+          : `Added ${added} new ${added === 1 ? 'favorite' : 'favorites'}`,
+      });
+      setImportPreview(null);
+    } catch (error) {
+      console.error('Failed to import data:', error);
+      toast({
+        title: "Import Failed",
+        description: "Failed to import your data. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const loadAnalytics = async () => {
     try {
       const data = await dbHelpers.getAnalytics(20);
@@ -135,6 +290,23 @@ export default function Settings() {
     { value: '50', label: '50 movies per page' },
   ];
 
+  const paginationModeOptions = [
+    { value: 'infinite', label: 'Infinite scroll' },
+    { value: 'pages', label: 'Numbered pages' },
+  ];
+
+  const movieProviderOptions = [
+    { value: 'tmdb', label: 'TMDB' },
+    { value: 'local-catalogue', label: 'Local JSON catalogue' },
+  ];
+
+  const cacheBudgetOptions = [
+    { value: '10', label: '10 MB' },
+    { value: '25', label: '25 MB' },
+    { value: '50', label: '50 MB' },
+    { value: '100', label: '100 MB' },
+  ];
+
   const languageOptions = [
     { value: 'en-US', label: 'English (US)' },
     { value: 'en-GB', label: 'English (UK)' },
@@ -230,6 +402,25 @@ export default function Settings() {
               </Select>
             </div>
 
+            <div className="space-y-3">
+              <Label htmlFor="paginationMode">Loading more results</Label>
+              <Select 
+                value={preferences.paginationMode} 
+                onValueChange={handlePaginationModeChange}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {paginationModeOptions.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-3">
               <Label htmlFor="language">Preferred language</Label>
               <Select 
@@ -248,6 +439,43 @@ export default function Settings() {
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="space-y-3">
+              <Label htmlFor="movieProvider">Movie data source</Label>
+              <Select 
+                value={preferences.movieProvider} 
+                onValueChange={handleMovieProviderChange}
+              >
+                <SelectTrigger id="movieProvider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {movieProviderOptions.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {preferences.movieProvider === 'local-catalogue' && (
+                <>
+                  <Input
+                    id="catalogueUrl"
+                    aria-label="Catalogue URL"
+                    value={catalogueUrl}
+                    onChange={(e) => setCatalogueUrl(e.target.value)}
+                    onBlur={handleCatalogueUrlCommit}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleCatalogueUrlCommit();
+                    }}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Movies come from the JSON file at this URL instead of TMDB. TV shows, people,
+                    Discover and trailers need TMDB and are hidden.
+                  </p>
+                </>
+              )}
+            </div>
           </CardContent>
         </Card>
 
@@ -261,7 +489,7 @@ export default function Settings() {
               <div className="space-y-1">
                 <Label htmlFor="offline-mode">Enable offline mode</Label>
                 <p className="text-sm text-muted-foreground">
-                  Cache search results for offline viewing
+                  Browse cached results without touching the network
                 </p>
               </div>
               <Switch
@@ -274,10 +502,42 @@ export default function Settings() {
             {preferences.offlineMode && (
               <Alert>
                 <AlertDescription>
-                  Offline mode is enabled. Search results and movie details will be cached for offline access.
+                  Offline mode is enabled. Search results and movie details are served from the cache, even
+                  when they have expired, and searches made while offline are replayed once you turn it off.
                 </AlertDescription>
               </Alert>
             )}
+
+            <Separator />
+
+            <div className="space-y-3">
+              <Label htmlFor="cacheBudget" className="flex items-center gap-2">
+                <Database className="h-4 w-4" />
+                Cache size limit
+              </Label>
+              <Select 
+                value={preferences.cacheBudgetMB.toString()} 
+                onValueChange={handleCacheBudgetChange}
+              >
+                <SelectTrigger id="cacheBudget">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {cacheBudgetOptions.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {cacheStats && (
+                <p className="text-sm text-muted-foreground">
+                  {cacheStats.entryCount} cached {cacheStats.entryCount === 1 ? 'response' : 'responses'} using{' '}
+                  {formatBytes(cacheStats.totalBytes)} of {formatBytes(cacheStats.maxBytes)}.
+                  Least recently used responses are evicted first.
+                </p>
+              )}
+            </div>
           </CardContent>
         </Card>
 
@@ -297,6 +557,22 @@ export default function Settings() {
                 Export Your Data
               </Button>
 
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                variant="outline"
+                className="w-full justify-start gap-2"
+              >
+                <Upload className="h-4 w-4" />
+                Import Data
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportFileChange}
+              />
+
               <Button
                 onClick={loadAnalytics}
                 variant="outline"
@@ -309,15 +585,16 @@ export default function Settings() {
               <Separator />
 
               <Button
-                onClick={clearAllData}
+                onClick={() => setShowClearDialog(true)}
                 variant="destructive"
                 className="w-full justify-start gap-2"
               >
                 <Trash2 className="h-4 w-4" />
-                Clear All Data
+                Clear Data...
               </Button>
               <p className="text-xs text-muted-foreground">
-                This will permanently delete all your favorites, search history, and settings.
+                Choose what to permanently delete: favorites, search history, cached responses,
+                analytics or settings.
               </p>
             </div>
           </CardContent>
@@ -365,6 +642,22 @@ export default function Settings() {
           </CardContent>
         </Card>
       )}
+
+      {/* Clear Data Confirmation */}
+      <ClearDataDialog
+        open={showClearDialog}
+        onOpenChange={setShowClearDialog}
+        onConfirm={clearData}
+      />
+
+      {/* Import Preview */}
+      <ImportDataDialog
+        preview={importPreview}
+        currentFavoriteCount={favorites.length}
+        isImporting={isImporting}
+        onConfirm={confirmImport}
+        onCancel={() => setImportPreview(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { IDBPIndex } from 'idb';
+import { AppDB, initDB } from './idb';
+
+export interface CacheStats {
+  entryCount: number;
+  totalBytes: number;
+  maxBytes: number;
+}
+
+export const DEFAULT_CACHE_BUDGET_MB = 25;
+
+// Expired entries are kept at least this long so they can still be served
+// offline, or for their whole stale window if that is longer
+const STALE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+let maxBytes = DEFAULT_CACHE_BUDGET_MB * 1024 * 1024;
+let pendingEviction: Promise<number> | null = null;
+// Running size of the store, counted on the first write. It only ever
+// overestimates (overwritten and cleared entries aren't subtracted), and
+// each eviction pass resets it to the exact figure.
+let trackedBytes: number | null = null;
+
+// Walks the LRU index by key only, so cached responses are never loaded
+const readSizes = async (
+  index: IDBPIndex<AppDB, ['api-cache'], 'api-cache', 'by-last-accessed-size', 'readonly' | 'readwrite'>
+) => {
+  const entries: Array<{ key: string; size: number }> = [];
+  let cursor = await index.openKeyCursor();
+  while (cursor) {
+    entries.push({ key: cursor.primaryKey, size: cursor.key[1] });
+    cursor = await cursor.continue();
+  }
+  return entries;
+};
+
+// Bounds the api-cache store: least recently used entries are evicted once
+// the total size exceeds the budget, and long-expired entries are swept.
+export const cacheManager = {
+  setBudget: (megabytes: number) => {
+    maxBytes = megabytes * 1024 * 1024;
+  },
+
+  getBudget: () => maxBytes,
+
+  getStats: async (): Promise<CacheStats> => {
+    const db = await initDB();
+    const entries = await readSizes(
+      db.transaction('api-cache', 'readonly').store.index('by-last-accessed-size')
+    );
+    const totalBytes = entries.reduce((total, entry) => total + entry.size, 0);
+
+    return { entryCount: entries.length, totalBytes, maxBytes };
+  },
+
+  // Evicts least recently used entries until the store fits the budget.
+  // Concurrent calls share one pass. Resolves to the number of entries evicted.
+  enforceBudget: () => {
+    if (!pendingEviction) {
+      pendingEviction = evictLeastRecentlyUsed().finally(() => {
+        pendingEviction = null;
+      });
+    }
+    return pendingEviction;
+  },
+
+  // Counts a newly cached response towards the budget, evicting only once
+  // the running total goes over it
+  recordCached: (bytes: number) => {
+    if (trackedBytes !== null) {
+      trackedBytes += bytes;
+      if (trackedBytes <= maxBytes) return Promise.resolve(0);
+    }
+    return cacheManager.enforceBudget();
+  },
+
+  // Deletes entries that expired longer ago than their retention.
+  // Resolves to the number of entries removed.
+  sweepExpired: async () => {
+    const db = await initDB();
+    const now = Date.now();
+    const tx = db.transaction('api-cache', 'readwrite');
+    const range = IDBKeyRange.upperBound(now - STALE_RETENTION_MS);
+    let removed = 0;
+
+    let cursor = await tx.store.index('by-timestamp').openCursor(range);
+    while (cursor) {
+      const { timestamp, ttl, stale = 0 } = cursor.value;
+      if (now - timestamp > ttl + Math.max(stale, STALE_RETENTION_MS)) {
+        await cursor.delete();
+        removed++;
+      }
+      cursor = await cursor.continue();
+    }
+
+    await tx.done;
+    return removed;
+  },
+};
+
+const evictLeastRecentlyUsed = async () => {
+  const db = await initDB();
+  const tx = db.transaction('api-cache', 'readwrite');
+  const entries = await readSizes(tx.store.index('by-last-accessed-size'));
+  let totalBytes = entries.reduce((total, entry) => total + entry.size, 0);
+
+  let evicted = 0;
+  for (const entry of entries) {
+    if (totalBytes <= maxBytes) break;
+    tx.store.delete(entry.key);
+    totalBytes -= entry.size;
+    evicted++;
+  }
+
+  await tx.done;
+  trackedBytes = totalBytes;
+  return evicted;
+};
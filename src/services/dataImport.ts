@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import { safeParseAs } from '@/lib/schema';
+import { getFavoriteKey } from './idb';
+import type { AppDB, Favorite } from './idb';
+import type { Preferences } from '../contexts/PreferencesContext';
+
+// Mirrors the file written by "Export Your Data" in Settings
+const favoriteBaseSchema = z.object({
+  // Files exported before other providers existed hold only TMDB favorites
+  source: z.string().min(1).default('tmdb'),
+  id: z.number().int().positive(),
+  overview: z.string().default(''),
+  poster_path: z.string().nullable().default('').transform(path => path ?? ''),
+  vote_average: z.number().default(0),
+  genre_ids: z.array(z.number().int()).optional(),
+  savedAt: z.number().default(() => Date.now()),
+});
+
+const favoriteSchema = z.preprocess(
+  // Files exported before TV support hold only movies and have no media_type
+  value => (value && typeof value === 'object' && !('media_type' in value) ? { ...value, media_type: 'movie' } : value),
+  z.discriminatedUnion('media_type', [
+    favoriteBaseSchema.extend({
+      media_type: z.literal('movie'),
+      title: z.string(),
+      release_date: z.string().default(''),
+    }),
+    favoriteBaseSchema.extend({
+      media_type: z.literal('tv'),
+      name: z.string(),
+      first_air_date: z.string().default(''),
+    }),
+  ])
+);
+
+const searchHistorySchema = z.object({
+  query: z.string().min(1),
+  timestamp: z.number(),
+});
+
+const preferencesSchema = z.object({
+  theme: z.enum(['light', 'dark']),
+  pageSize: z.number().int().positive(),
+  paginationMode: z.enum(['infinite', 'pages']),
+  language: z.string().min(2),
+  offlineMode: z.boolean(),
+  cacheBudgetMB: z.number().positive(),
+  movieProvider: z.enum(['tmdb', 'local-catalogue']),
+  catalogueUrl: z.string().min(1),
+}).partial();
+
+export const exportFileSchema = z.object({
+  favorites: z.array(favoriteSchema).default([]),
+  searchHistory: z.array(searchHistorySchema).default([]),
+  analytics: z.array(z.unknown()).default([]),
+  preferences: preferencesSchema.optional(),
+  exportDate: z.string().optional(),
+});
+
+// What exportFileSchema parses to
+export interface ExportFile {
+  favorites: Favorite[];
+  searchHistory: AppDB['search-history']['value'][];
+  analytics: unknown[];
+  preferences?: Partial<Preferences>;
+  exportDate?: string;
+}
+
+export type FavoritesImportMode = 'merge' | 'replace';
+
+export interface ImportPreview {
+  data: ExportFile;
+  newFavorites: ExportFile['favorites'];
+  existingFavoriteCount: number;
+}
+
+/**
+ * Parses and validates an exported data file.
+ * @throws Error with a readable message when the file is not a valid export
+ */
+export const parseExportFile = (text: string): ExportFile => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const result = safeParseAs(exportFileSchema, json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    throw new Error(`The file is not a valid export: ${issue.message}${path}.`);
+  }
+
+  // The schema checked every field, but zod still types them as optional
+  return result.data as ExportFile;
+};
+
+/**
+ * Works out which favorites in the file are not saved yet
+ * @param currentFavoriteKeys - Keys of saved favorites, from getFavoriteKey
+ */
+export const previewImport = (data: ExportFile, currentFavoriteKeys: string[]): ImportPreview => {
+  const current = new Set(currentFavoriteKeys);
+  const newFavorites = data.favorites.filter(fav => !current.has(getFavoriteKey(fav)));
+
+  return {
+    data,
+    newFavorites,
+    existingFavoriteCount: data.favorites.length - newFavorites.length,
+  };
+};
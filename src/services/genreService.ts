@@ -0,0 +1,40 @@
+import { TMDBGenre, tmdbAPI } from '../api/apiClient';
+import { dbHelpers } from './idb';
+
+// Genre names rarely change, so a stored list is only refreshed after this long
+const REFRESH_AFTER_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Loads already under way, so concurrent callers share one request per language
+const pending = new Map<string, Promise<TMDBGenre[]>>();
+
+const fetchGenres = async (language: string): Promise<TMDBGenre[]> => {
+  const stored = await dbHelpers.getGenreList(language).catch(() => undefined);
+  if (stored && Date.now() - stored.fetchedAt < REFRESH_AFTER_MS) {
+    return stored.genres;
+  }
+
+  try {
+    const { genres } = await tmdbAPI.getMovieGenres(language);
+    await dbHelpers.saveGenreList(language, genres);
+    return genres;
+  } catch (error) {
+    // An outdated list still beats showing no genres at all
+    if (stored) return stored.genres;
+    throw error;
+  }
+};
+
+export const genreService = {
+  /**
+   * Returns the movie genre catalogue for a language, from IndexedDB when
+   * available and from TMDB otherwise.
+   */
+  getGenres: (language: string): Promise<TMDBGenre[]> => {
+    let request = pending.get(language);
+    if (!request) {
+      request = fetchGenres(language).finally(() => pending.delete(language));
+      pending.set(language, request);
+    }
+    return request;
+  },
+};
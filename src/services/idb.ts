@@ -1,17 +1,43 @@
-import { openDB, DBSchema } from 'idb';
+import { openDB, DBSchema, IDBPDatabase, StoreNames } from 'idb';
+import type { DehydratedState } from '@tanstack/react-query';
+import type { SearchResultType } from '../api/search';
+import { DB_VERSION, runMigrations } from './migrations';
+
+export const DB_NAME = 'movie-discovery-db';
+
+export type FavoriteMediaType = 'movie' | 'tv';
+
+interface FavoriteBase {
+  // Id of the movie provider it was saved from, e.g. "tmdb". Ids from
+  // different providers can clash, so each provider has its own favorites.
+  source: string;
+  id: number;
+  overview: string;
+  poster_path: string;
+  vote_average: number;
+  genre_ids?: number[];
+  savedAt: number;
+}
+
+export interface FavoriteMovie extends FavoriteBase {
+  media_type: 'movie';
+  title: string;
+  release_date: string;
+}
+
+export interface FavoriteTVShow extends FavoriteBase {
+  media_type: 'tv';
+  name: string;
+  first_air_date: string;
+}
+
+export type Favorite = FavoriteMovie | FavoriteTVShow;
 
 export interface AppDB extends DBSchema {
   favorites: {
-    key: number;
-    value: {
-      id: number;
-      title: string;
-      overview: string;
-      poster_path: string;
-      release_date: string;
-      vote_average: number;
-      savedAt: number;
-    };
+    // Providers, and movies and shows within TMDB, have separate id ranges
+    key: [string, FavoriteMediaType, number];
+    value: Favorite;
   };
   'search-history': {
     key: string;
@@ -28,8 +54,40 @@ export interface AppDB extends DBSchema {
       data: any;
       timestamp: number;
       ttl: number;
+      // How long past the ttl the response may be served while revalidating
+      stale?: number;
+      size: number;
+      lastAccessed: number;
+    };
+    // Size is part of the LRU index so eviction can read it without loading responses
+    indexes: { 'by-timestamp': number; 'by-last-accessed-size': [number, number] };
+  };
+  'pending-searches': {
+    // The same text searched under two result types is queued twice
+    key: [SearchResultType, string];
+    value: {
+      type: SearchResultType;
+      query: string;
+      timestamp: number;
+    };
+  };
+  genres: {
+    key: string;
+    value: {
+      language: string;
+      genres: Array<{ id: number; name: string }>;
+      fetchedAt: number;
+    };
+  };
+  'query-cache': {
+    key: string;
+    value: {
+      key: string;
+      // Persisted state from an older build is discarded rather than restored
+      buster: string;
+      savedAt: number;
+      state: DehydratedState;
     };
-    indexes: { 'by-timestamp': number };
   };
   preferences: {
     key: string;
@@ -46,52 +104,77 @@ export interface AppDB extends DBSchema {
   };
 }
 
-// Initialize IndexedDB
-export const initDB = async () => {
-  return openDB<AppDB>('movie-discovery-db', 1, {
-    upgrade(db) {
-      // Favorites store
-      if (!db.objectStoreNames.contains('favorites')) {
-        db.createObjectStore('favorites', { keyPath: 'id' });
-      }
+// Identifies a favorite across providers and media types, e.g. "tmdb:tv:1399"
+export const getFavoriteKey = (favorite: Pick<Favorite, 'source' | 'media_type' | 'id'>) =>
+  `${favorite.source}:${favorite.media_type}:${favorite.id}`;
 
-      // Search history store
-      if (!db.objectStoreNames.contains('search-history')) {
-        const searchStore = db.createObjectStore('search-history', { keyPath: 'query' });
-        searchStore.createIndex('by-timestamp', 'timestamp');
-      }
+// Approximate size in bytes of a value once serialized
+export const estimateSize = (value: unknown) => {
+  return new TextEncoder().encode(JSON.stringify(value) ?? '').length;
+};
 
-      // API cache store
-      if (!db.objectStoreNames.contains('api-cache')) {
-        const cacheStore = db.createObjectStore('api-cache', { keyPath: 'key' });
-        cacheStore.createIndex('by-timestamp', 'timestamp');
-      }
+// Shared connection, opened lazily on first use
+let dbPromise: Promise<IDBPDatabase<AppDB>> | null = null;
 
-      // Preferences store
-      if (!db.objectStoreNames.contains('preferences')) {
-        db.createObjectStore('preferences');
+// Initialize IndexedDB. Schema changes live in migrations.ts.
+export const initDB = async () => {
+  if (!dbPromise) {
+    dbPromise = openDB<AppDB>(DB_NAME, DB_VERSION, {
+      upgrade(db, oldVersion, newVersion, transaction) {
+        runMigrations(db, oldVersion, newVersion, transaction);
+      },
+      blocked(currentVersion, blockedVersion) {
+        console.warn(
+          `Database upgrade from v${currentVersion} to v${blockedVersion} is waiting for other tabs to close it`
+        );
+      },
+      blocking() {
+        // Another tab is upgrading the schema: let go so it isn't left hanging.
+        // The next helper call reopens the connection.
+        closeDB();
+      },
+      terminated() {
+        // The browser closed the connection abnormally; reopen on next use
+        dbPromise = null;
+      },
+    }).catch((error) => {
+      dbPromise = null;
+      if (error instanceof DOMException && error.name === 'VersionError') {
+        console.error('The database was upgraded by a newer version of the app. Reload this tab to continue.');
       }
+      throw error;
+    });
+  }
+  return dbPromise;
+};
 
-      // Analytics store
-      if (!db.objectStoreNames.contains('analytics')) {
-        const analyticsStore = db.createObjectStore('analytics', { autoIncrement: true });
-        analyticsStore.createIndex('by-timestamp', 'timestamp');
-      }
-    },
-  });
+export const closeDB = async () => {
+  const pending = dbPromise;
+  dbPromise = null;
+  if (pending) {
+    const db = await pending.catch(() => null);
+    db?.close();
+  }
 };
 
 // Helper functions for common operations
 export const dbHelpers = {
   // Favorites
-  addFavorite: async (movie: AppDB['favorites']['value']) => {
+  addFavorite: async (favorite: Favorite) => {
     const db = await initDB();
-    return db.add('favorites', movie);
+    return db.add('favorites', favorite);
   },
 
-  removeFavorite: async (id: number) => {
+  removeFavorite: async (source: string, mediaType: FavoriteMediaType, id: number) => {
     const db = await initDB();
-    return db.delete('favorites', id);
+    return db.delete('favorites', [source, mediaType, id]);
+  },
+
+  // Removes every favorite saved from one provider
+  removeFavoritesFromSource: async (source: string) => {
+    const db = await initDB();
+    // Arrays sort after strings, so this spans every key starting with source
+    return db.delete('favorites', IDBKeyRange.bound([source], [source, []]));
   },
 
   getFavorites: async () => {
@@ -99,12 +182,28 @@ export const dbHelpers = {
     return db.getAll('favorites');
   },
 
-  isFavorite: async (id: number) => {
+  isFavorite: async (source: string, mediaType: FavoriteMediaType, id: number) => {
     const db = await initDB();
-    const favorite = await db.get('favorites', id);
+    const favorite = await db.get('favorites', [source, mediaType, id]);
     return !!favorite;
   },
 
+  // Saves favorites in one transaction. Without replace, favorites that are
+  // already saved keep their original savedAt.
+  importFavorites: async (favorites: Favorite[], replace = false) => {
+    const db = await initDB();
+    const tx = db.transaction('favorites', 'readwrite');
+    if (replace) {
+      await tx.store.clear();
+    }
+    for (const favorite of favorites) {
+      if (replace || !(await tx.store.getKey([favorite.source, favorite.media_type, favorite.id]))) {
+        await tx.store.put(favorite);
+      }
+    }
+    await tx.done;
+  },
+
   // Search history
   addToSearchHistory: async (query: string) => {
     const db = await initDB();
@@ -124,29 +223,105 @@ export const dbHelpers = {
       .slice(0, limit);
   },
 
+  // Keeps the most recent timestamp for queries that are already in history
+  importSearchHistory: async (entries: AppDB['search-history']['value'][]) => {
+    const db = await initDB();
+    const tx = db.transaction('search-history', 'readwrite');
+    for (const entry of entries) {
+      const existing = await tx.store.get(entry.query);
+      if (!existing || existing.timestamp < entry.timestamp) {
+        await tx.store.put(entry);
+      }
+    }
+    await tx.done;
+  },
+
   // API Cache
-  cacheAPIResponse: async (key: string, data: any, ttlMinutes = 10) => {
+  // Resolves to the size in bytes of the cached entry
+  cacheAPIResponse: async (key: string, data: any, ttlMinutes = 10, staleMinutes = 0) => {
     const db = await initDB();
-    return db.put('api-cache', {
+    const now = Date.now();
+    const size = estimateSize(data);
+    await db.put('api-cache', {
       key,
       data,
-      timestamp: Date.now(),
+      timestamp: now,
       ttl: ttlMinutes * 60 * 1000,
+      stale: staleMinutes * 60 * 1000,
+      size,
+      lastAccessed: now,
     });
+    return size;
   },
 
-  getCachedResponse: async (key: string) => {
+  // Expired entries are returned too, so they can still be served while
+  // offline. Reading an entry marks it as recently used for LRU eviction.
+  getCacheEntry: async (key: string) => {
     const db = await initDB();
-    const cached = await db.get('api-cache', key);
-    if (!cached) return null;
-
-    const isExpired = Date.now() - cached.timestamp > cached.ttl;
-    if (isExpired) {
-      await db.delete('api-cache', key);
-      return null;
+    const tx = db.transaction('api-cache', 'readwrite');
+    const entry = await tx.store.get(key);
+    if (entry) {
+      entry.lastAccessed = Date.now();
+      tx.store.put(entry);
     }
+    await tx.done;
+    return entry;
+  },
+
+  isCacheEntryExpired: (entry: AppDB['api-cache']['value']) => {
+    return Date.now() - entry.timestamp > entry.ttl;
+  },
+
+  // Pending searches
+  queueSearch: async (type: SearchResultType, query: string) => {
+    const db = await initDB();
+    return db.put('pending-searches', {
+      type,
+      query,
+      timestamp: Date.now(),
+    });
+  },
+
+  getQueuedSearches: async () => {
+    const db = await initDB();
+    const queued = await db.getAll('pending-searches');
+    return queued.sort((a, b) => a.timestamp - b.timestamp);
+  },
 
-    return cached.data;
+  removeQueuedSearch: async (type: SearchResultType, query: string) => {
+    const db = await initDB();
+    return db.delete('pending-searches', [type, query]);
+  },
+
+  // Genre catalogue, one list per language
+  getGenreList: async (language: string) => {
+    const db = await initDB();
+    return db.get('genres', language);
+  },
+
+  saveGenreList: async (language: string, genres: AppDB['genres']['value']['genres']) => {
+    const db = await initDB();
+    return db.put('genres', {
+      language,
+      genres,
+      fetchedAt: Date.now(),
+    });
+  },
+
+  // Persisted React Query cache
+  getQueryCache: async (key: string) => {
+    const db = await initDB();
+    return db.get('query-cache', key);
+  },
+
+  saveQueryCache: async (key: string, buster: string, state: DehydratedState) => {
+    const db = await initDB();
+    return db.put('query-cache', {
+      key,
+      buster,
+      savedAt: Date.now(),
+      state,
+    });
   },
 
   // Preferences
@@ -179,4 +354,17 @@ export const dbHelpers = {
       .sort((a, b) => b.timestamp - a.timestamp)
       .slice(0, limit);
   },
+
+  // Clearing
+  clearStore: async (storeName: StoreNames<AppDB>) => {
+    const db = await initDB();
+    return db.clear(storeName);
+  },
+
+  clearAllStores: async () => {
+    const db = await initDB();
+    const storeNames = Array.from(db.objectStoreNames);
+    const tx = db.transaction(storeNames, 'readwrite');
+    await Promise.all([...storeNames.map(name => tx.objectStore(name).clear()), tx.done]);
+  },
 };
\ No newline at end of file
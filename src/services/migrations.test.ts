@@ -0,0 +1,147 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { openDB } from 'idb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AppDB } from './idb';
+import { DB_VERSION, Migration, migrations, runMigrations, transformRecords } from './migrations';
+
+const TEST_DB = 'migrations-test';
+
+const openAt = (version: number, pending: Migration[] = migrations) =>
+  openDB<AppDB>(TEST_DB, version, {
+    upgrade(db, oldVersion, newVersion, transaction) {
+      runMigrations(db, oldVersion, newVersion, transaction, pending);
+    },
+  });
+
+// A favorite as the first release stored it: a plain TMDB movie keyed by id
+const baselineFavorite = {
+  id: 550,
+  title: 'Fight Club',
+  overview: 'An insomniac office worker...',
+  poster_path: '/poster.jpg',
+  release_date: '1999-10-15',
+  vote_average: 8.4,
+  genre_ids: [18],
+  savedAt: 1700000000000,
+};
+
+const seedBaseline = async () => {
+  const db = await openAt(1);
+  const tx = db.transaction(['favorites', 'search-history', 'api-cache', 'preferences', 'analytics'], 'readwrite');
+  // Written with casts: these records predate fields the current schema requires
+  tx.objectStore('favorites').put(baselineFavorite as never);
+  tx.objectStore('search-history').put({ query: 'matrix', timestamp: 1700000000000 });
+  tx.objectStore('api-cache').put({ key: '/movie/popular', data: { results: [] }, timestamp: 1700000000000, ttl: 600000 } as never);
+  tx.objectStore('preferences').put('dark', 'theme');
+  tx.objectStore('analytics').add({ action: 'page_view', data: {}, timestamp: 1700000000000 });
+  await tx.done;
+  db.close();
+};
+
+beforeEach(() => {
+  // A fresh, empty IndexedDB for every test
+  globalThis.indexedDB = new IDBFactory();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('migrations', () => {
+  it('are listed in ascending version order', () => {
+    const versions = migrations.map(migration => migration.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(DB_VERSION).toBe(versions[versions.length - 1]);
+  });
+
+  it('upgrades a v1 database with existing data to the current version', async () => {
+    await seedBaseline();
+
+    const db = await openAt(DB_VERSION);
+    expect(db.version).toBe(DB_VERSION);
+    expect(Array.from(db.objectStoreNames).sort()).toEqual([
+      'analytics',
+      'api-cache',
+      'favorites',
+      'genres',
+      'pending-searches',
+      'preferences',
+      'query-cache',
+      'search-history',
+    ]);
+
+    expect(await db.getAll('search-history')).toEqual([{ query: 'matrix', timestamp: 1700000000000 }]);
+    expect(await db.get('preferences', 'theme')).toBe('dark');
+    expect(await db.count('analytics')).toBe(1);
+    // v3 drops cached responses that have no size to evict them by
+    expect(await db.count('api-cache')).toBe(0);
+    expect(await db.getAll('favorites')).toEqual([{ ...baselineFavorite, media_type: 'movie', source: 'tmdb' }]);
+    db.close();
+  });
+
+  it('re-keys favorites by media type and id in v5', async () => {
+    await seedBaseline();
+    const before = await openAt(4);
+    before.close();
+
+    const db = await openAt(5);
+    const store = db.transaction('favorites').store;
+    expect(store.keyPath).toEqual(['media_type', 'id']);
+    expect(await store.get(['movie', 550] as never)).toEqual({ ...baselineFavorite, media_type: 'movie' });
+    expect(await db.count('favorites')).toBe(1);
+    db.close();
+  });
+
+  it('keys favorites by provider in v9, recording existing ones as TMDB', async () => {
+    await seedBaseline();
+    const before = await openAt(8);
+    before.close();
+
+    const db = await openAt(9);
+    const store = db.transaction('favorites').store;
+    expect(store.keyPath).toEqual(['source', 'media_type', 'id']);
+    expect(await store.get(['tmdb', 'movie', 550])).toEqual({ ...baselineFavorite, media_type: 'movie', source: 'tmdb' });
+    db.close();
+  });
+
+  it('rewrites and deletes records with transformRecords', async () => {
+    const db = await openAt(DB_VERSION);
+    await db.put('search-history', { query: 'keep', timestamp: 1 });
+    await db.put('search-history', { query: 'drop', timestamp: 2 });
+    db.close();
+
+    const next: Migration = {
+      version: DB_VERSION + 1,
+      description: 'Rewrites search history',
+      migrate: (_db, transaction) =>
+        transformRecords(transaction, 'search-history', entry =>
+          entry.query === 'drop' ? null : { ...entry, timestamp: 10 }
+        ),
+    };
+    const upgraded = await openAt(DB_VERSION + 1, [...migrations, next]);
+    expect(await upgraded.getAll('search-history')).toEqual([{ query: 'keep', timestamp: 10 }]);
+    upgraded.close();
+  });
+
+  it('aborts the upgrade and keeps the previous version when a migration throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await seedBaseline();
+
+    const failing: Migration = {
+      version: 2,
+      description: 'Fails halfway through',
+      migrate(db) {
+        db.createObjectStore('pending-searches', { keyPath: 'query' });
+        throw new Error('boom');
+      },
+    };
+    await expect(openAt(2, [migrations[0], failing])).rejects.toThrow();
+
+    const db = await openDB<AppDB>(TEST_DB);
+    expect(db.version).toBe(1);
+    expect(db.objectStoreNames.contains('pending-searches')).toBe(false);
+    expect(await db.get('favorites', 550 as never)).toEqual(baselineFavorite);
+    db.close();
+  });
+});
@@ -0,0 +1,167 @@
+import { IDBPDatabase, IDBPTransaction, IndexNames, StoreNames, StoreValue } from 'idb';
+import type { AppDB, FavoriteMovie } from './idb';
+
+export type UpgradeTransaction = IDBPTransaction<AppDB, StoreNames<AppDB>[], 'versionchange'>;
+
+export interface Migration {
+  /** Schema version this migration upgrades the database to */
+  version: number;
+  description: string;
+  migrate: (db: IDBPDatabase<AppDB>, transaction: UpgradeTransaction) => void | Promise<void>;
+}
+
+// Created in v3 and replaced in v8, so the current schema type no longer lists it
+const LEGACY_LRU_INDEX = 'by-last-accessed' as IndexNames<AppDB, 'api-cache'>;
+
+/**
+ * Rewrites every record in a store inside the upgrade transaction. Returning
+ * null from the transform deletes the record.
+ */
+export const transformRecords = async <Name extends StoreNames<AppDB>>(
+  transaction: UpgradeTransaction,
+  storeName: Name,
+  transform: (record: StoreValue<AppDB, Name>) => StoreValue<AppDB, Name> | null
+) => {
+  let cursor = await transaction.objectStore(storeName).openCursor();
+  while (cursor) {
+    const next = transform(cursor.value);
+    if (next === null) {
+      await cursor.delete();
+    } else {
+      await cursor.update(next);
+    }
+    cursor = await cursor.continue();
+  }
+};
+
+// Ordered by version. Never edit a migration that has shipped; add a new one.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create favorites, search history, API cache, preferences and analytics stores',
+    migrate(db) {
+      db.createObjectStore('favorites', { keyPath: 'id' });
+
+      const searchStore = db.createObjectStore('search-history', { keyPath: 'query' });
+      searchStore.createIndex('by-timestamp', 'timestamp');
+
+      const cacheStore = db.createObjectStore('api-cache', { keyPath: 'key' });
+      cacheStore.createIndex('by-timestamp', 'timestamp');
+
+      db.createObjectStore('preferences');
+
+      const analyticsStore = db.createObjectStore('analytics', { autoIncrement: true });
+      analyticsStore.createIndex('by-timestamp', 'timestamp');
+    },
+  },
+  {
+    version: 2,
+    description: 'Queue searches made while offline',
+    migrate(db) {
+      db.createObjectStore('pending-searches', { keyPath: 'query' });
+    },
+  },
+  {
+    version: 3,
+    description: 'Track size and last access time of cached API responses',
+    migrate(db, transaction) {
+      // Older entries have no size or access time to rank them by, so start afresh
+      const cacheStore = transaction.objectStore('api-cache');
+      cacheStore.clear();
+      cacheStore.createIndex(LEGACY_LRU_INDEX, 'lastAccessed');
+    },
+  },
+  {
+    version: 4,
+    description: 'Keep the genre catalogue for each language',
+    migrate(db) {
+      db.createObjectStore('genres', { keyPath: 'language' });
+    },
+  },
+  {
+    version: 5,
+    description: 'Key favorites by media type and id so TV shows can be saved alongside movies',
+    async migrate(db, transaction) {
+      // A store's key path can't be changed in place, so copy the records across
+      const existing = await transaction.objectStore('favorites').getAll();
+      db.deleteObjectStore('favorites');
+      const favoritesStore = db.createObjectStore('favorites', { keyPath: ['media_type', 'id'] });
+      for (const favorite of existing) {
+        favoritesStore.put({ ...favorite, media_type: 'movie' } as FavoriteMovie);
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Persist the React Query cache between visits',
+    migrate(db) {
+      db.createObjectStore('query-cache', { keyPath: 'key' });
+    },
+  },
+  {
+    version: 7,
+    description: 'Queue offline searches with the result type they were made under',
+    async migrate(db, transaction) {
+      // Older queued searches don't record a type, so they replay as "all"
+      const existing = await transaction.objectStore('pending-searches').getAll();
+      db.deleteObjectStore('pending-searches');
+      const pendingStore = db.createObjectStore('pending-searches', { keyPath: ['type', 'query'] });
+      for (const search of existing) {
+        pendingStore.put({ ...search, type: search.type ?? 'all' });
+      }
+    },
+  },
+  {
+    version: 8,
+    description: 'Index cached API responses by last access time and size',
+    migrate(db, transaction) {
+      const cacheStore = transaction.objectStore('api-cache');
+      cacheStore.deleteIndex(LEGACY_LRU_INDEX);
+      cacheStore.createIndex('by-last-accessed-size', ['lastAccessed', 'size']);
+    },
+  },
+  {
+    version: 9,
+    description: 'Key favorites by the movie provider they were saved from',
+    async migrate(db, transaction) {
+      // Every favorite saved so far came from TMDB
+      const existing = await transaction.objectStore('favorites').getAll();
+      db.deleteObjectStore('favorites');
+      const favoritesStore = db.createObjectStore('favorites', { keyPath: ['source', 'media_type', 'id'] });
+      for (const favorite of existing) {
+        favoritesStore.put({ ...favorite, source: 'tmdb' });
+      }
+    },
+  },
+];
+
+export const DB_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Runs every migration newer than oldVersion, in order, inside the upgrade
+ * transaction. A failing migration aborts the transaction so the database
+ * stays at its previous version.
+ */
+export const runMigrations = async (
+  db: IDBPDatabase<AppDB>,
+  oldVersion: number,
+  newVersion: number | null,
+  transaction: UpgradeTransaction,
+  pending: Migration[] = migrations
+) => {
+  const target = newVersion ?? DB_VERSION;
+
+  try {
+    for (const migration of pending) {
+      if (migration.version > oldVersion && migration.version <= target) {
+        await migration.migrate(db, transaction);
+      }
+    }
+  } catch (error) {
+    console.error('Database migration failed:', error);
+    // openDB already rejects with the abort; without this the transaction's
+    // done promise would reject unhandled as well
+    transaction.done.catch(() => {});
+    transaction.abort();
+  }
+};
@@ -0,0 +1,63 @@
+import { QueryClient, dehydrate, hydrate } from '@tanstack/react-query';
+import { TMDB_SOURCE } from '../api/queries';
+import { dbHelpers } from './idb';
+
+const STORE_KEY = 'tmdb';
+// Bump when the shape of cached TMDB data changes so old copies are dropped
+const BUSTER = '1';
+// Older copies are not worth showing, the API cache has fresher data by then
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// Writes are batched, since a page of results settles many queries at once
+const SAVE_DELAY_MS = 1000;
+
+// Catalogue providers load their whole file on each visit, so only TMDB
+// queries are worth keeping
+const save = async (queryClient: QueryClient) => {
+  const state = dehydrate(queryClient, {
+    shouldDehydrateQuery: (query) =>
+      query.state.status === 'success' && query.queryKey[0] === TMDB_SOURCE,
+  });
+  await dbHelpers.saveQueryCache(STORE_KEY, BUSTER, state);
+};
+
+export const queryPersistence = {
+  /**
+   * Loads TMDB queries saved by an earlier visit into the client. Queries
+   * already holding newer data are left alone.
+   */
+  restore: async (queryClient: QueryClient) => {
+    try {
+      const saved = await dbHelpers.getQueryCache(STORE_KEY);
+      if (!saved) return;
+
+      if (saved.buster !== BUSTER || Date.now() - saved.savedAt > MAX_AGE_MS) {
+        await dbHelpers.clearStore('query-cache');
+        return;
+      }
+      hydrate(queryClient, saved.state);
+    } catch (error) {
+      console.error('Failed to restore query cache:', error);
+    }
+  },
+
+  /**
+   * Saves successful TMDB queries to IndexedDB whenever the cache changes.
+   * Returns a function that stops saving.
+   */
+  subscribe: (queryClient: QueryClient) => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = queryClient.getQueryCache().subscribe(() => {
+      if (timer) return;
+      timer = setTimeout(() => {
+        timer = null;
+        save(queryClient).catch(error => console.error('Failed to save query cache:', error));
+      }, SAVE_DELAY_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  },
+};
@@ -0,0 +1,26 @@
+// Cross-tab synchronization over BroadcastChannel. Messages are only delivered
+// to other tabs, never back to the tab that posted them.
+
+export type SyncMessage =
+  | { type: 'favorites-changed' }
+  | { type: 'preferences-changed'; preferences: Record<string, unknown> };
+
+type SyncListener = (message: SyncMessage) => void;
+
+const channel = typeof BroadcastChannel !== 'undefined'
+  ? new BroadcastChannel('movie-discovery-sync')
+  : null;
+
+export const syncChannel = {
+  post: (message: SyncMessage) => {
+    channel?.postMessage(message);
+  },
+
+  subscribe: (listener: SyncListener) => {
+    if (!channel) return () => {};
+
+    const handleMessage = (event: MessageEvent<SyncMessage>) => listener(event.data);
+    channel.addEventListener('message', handleMessage);
+    return () => channel.removeEventListener('message', handleMessage);
+  },
+};
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -33,4 +34,8 @@ export default defineConfig(({ mode }) => ({
       },
     },
   },
+
+  test: {
+    environment: 'node',
+  },
 }));